@@ -2,18 +2,36 @@
  * In-memory storage adapter
  * @packageDocumentation
  */
-import type { User, Role, Policy } from "../types/entities.js";
-import type { IAMStorage } from "../core/storage.js";
+import type { User, Role, Policy, Group } from "../types/entities.js";
+import type { IAMStorage, StorageChangeListener } from "../core/storage.js";
+import { StorageChangeEmitter } from "../core/storage.js";
 import type { ILogger, LogLevel, IAMConfig } from "../core/logger.js";
 import { DefaultLogger } from "../core/logger.js";
+import {
+  enforceValidation,
+  validateBeforeSave,
+  validateEntities,
+  validateGroup,
+  validatePolicy,
+  validateRole,
+  validateUser,
+  type AdapterValidationSettings,
+  type ValidationMode,
+  type ValidationOptions,
+} from "../utils/validation.js";
 
 export interface InMemoryAdapterOptions {
   users?: User[];
   roles?: Role[];
   policies?: Policy[];
+  groups?: Group[];
   logger?: ILogger;
   logLevel?: LogLevel;
   config?: IAMConfig;
+  /** Validation of the initial entities and of saved entities (default 'warn') */
+  validation?: ValidationMode;
+  /** Condition operators beyond the built-in ones, known to validation */
+  operators?: ValidationOptions["operators"];
 }
 
 /**
@@ -23,7 +41,10 @@ export class InMemoryAdapter implements IAMStorage {
   private users: Map<string, User>;
   private roles: Map<string, Role>;
   private policies: Map<string, Policy>;
+  private groups: Map<string, Group>;
   private logger: ILogger;
+  private changes = new StorageChangeEmitter();
+  private validation: AdapterValidationSettings;
 
   /**
    * @param options InMemoryAdapterOptions, supports logger/config
@@ -32,14 +53,51 @@ export class InMemoryAdapter implements IAMStorage {
     this.users = new Map(options.users?.map((u) => [u.id, u]) ?? []);
     this.roles = new Map(options.roles?.map((r) => [r.id, r]) ?? []);
     this.policies = new Map(options.policies?.map((p) => [p.id, p]) ?? []);
+    this.groups = new Map(options.groups?.map((g) => [g.id, g]) ?? []);
     const config = options.config;
     this.logger =
       options.logger ||
       config?.logger ||
       new DefaultLogger(options.logLevel || config?.logLevel);
+    // Validation warnings only go to a logger or log level the caller chose
+    const configured =
+      options.logger ||
+      config?.logger ||
+      options.logLevel ||
+      config?.logLevel;
+    this.validation = {
+      mode: options.validation ?? "warn",
+      operators: options.operators,
+      logger: configured ? this.logger : undefined,
+    };
+    if (this.validation.mode !== "off") {
+      const { users, roles, policies, groups } = options;
+      enforceValidation(
+        validateEntities(
+          { users, roles, policies, groups },
+          { operators: this.validation.operators }
+        ),
+        this.validation.mode,
+        this.validation.logger,
+        "initial entities"
+      );
+    }
     this.logger.debug("InMemoryAdapter initialized", options);
   }
 
+  /** Ids that references of saved entities are checked against */
+  private storedIds() {
+    return { policyIds: this.policies.keys(), roleIds: this.roles.keys() };
+  }
+
+  /**
+   * Register a listener notified after every save/delete
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    return this.changes.subscribe(listener);
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     this.logger.debug("getUser", id);
     return this.users.get(id);
@@ -79,24 +137,83 @@ export class InMemoryAdapter implements IAMStorage {
     for (const policy of this.policies.values()) yield policy;
   }
 
+  async getGroup(id: string): Promise<Group | undefined> {
+    this.logger.debug("getGroup", id);
+    return this.groups.get(id);
+  }
+  async getGroups(ids: string[]): Promise<Group[]> {
+    this.logger.debug("getGroups", ids);
+    return ids.map((id) => this.groups.get(id)).filter(Boolean) as Group[];
+  }
+  async *getAllGroups(): AsyncIterable<Group> {
+    this.logger.debug("getAllGroups");
+    for (const group of this.groups.values()) yield group;
+  }
+  async getGroupsForUser(userId: string): Promise<Group[]> {
+    this.logger.debug("getGroupsForUser", userId);
+    return [...this.groups.values()].filter((g) => g.userIds.includes(userId));
+  }
+
   async saveUser(user: User): Promise<void> {
     this.logger.debug("saveUser", user);
+    validateBeforeSave(
+      validateUser,
+      user,
+      "user",
+      this.storedIds(),
+      this.validation
+    );
     this.users.set(user.id, user);
+    this.changes.emit({ type: "user", operation: "save", id: user.id, entity: user });
   }
   async saveRole(role: Role): Promise<void> {
+    validateBeforeSave(
+      validateRole,
+      role,
+      "role",
+      this.storedIds(),
+      this.validation
+    );
     this.roles.set(role.id, role);
+    this.changes.emit({ type: "role", operation: "save", id: role.id, entity: role });
   }
   async savePolicy(policy: Policy): Promise<void> {
+    validateBeforeSave(
+      validatePolicy,
+      policy,
+      "policy",
+      this.storedIds(),
+      this.validation
+    );
     this.policies.set(policy.id, policy);
+    this.changes.emit({ type: "policy", operation: "save", id: policy.id, entity: policy });
+  }
+  async saveGroup(group: Group): Promise<void> {
+    validateBeforeSave(
+      validateGroup,
+      group,
+      "group",
+      this.storedIds(),
+      this.validation
+    );
+    this.groups.set(group.id, group);
+    this.changes.emit({ type: "group", operation: "save", id: group.id, entity: group });
   }
 
   async deleteUser(id: string): Promise<void> {
     this.users.delete(id);
+    this.changes.emit({ type: "user", operation: "delete", id });
   }
   async deleteRole(id: string): Promise<void> {
     this.roles.delete(id);
+    this.changes.emit({ type: "role", operation: "delete", id });
   }
   async deletePolicy(id: string): Promise<void> {
     this.policies.delete(id);
+    this.changes.emit({ type: "policy", operation: "delete", id });
+  }
+  async deleteGroup(id: string): Promise<void> {
+    this.groups.delete(id);
+    this.changes.emit({ type: "group", operation: "delete", id });
   }
 }
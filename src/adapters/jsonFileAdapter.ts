@@ -2,12 +2,32 @@
  * JSON file storage adapter (skeleton)
  * @packageDocumentation
  */
-import type { User, Role, Policy } from "../types/entities.js";
-import type { IAMStorage } from "../core/storage.js";
+import type { User, Role, Policy, Group } from "../types/entities.js";
+import type { IAMStorage, StorageChangeListener } from "../core/storage.js";
+import { StorageChangeEmitter } from "../core/storage.js";
+import type { ILogger } from "../core/logger.js";
+import {
+  enforceValidation,
+  validateBeforeSave,
+  validateEntities,
+  validateGroup,
+  validatePolicy,
+  validateRole,
+  validateUser,
+  type AdapterValidationSettings,
+  type ValidationMode,
+  type ValidationOptions,
+} from "../utils/validation.js";
 import { promises as fs } from "fs";
 
 export interface JSONFileAdapterOptions {
   filePath: string;
+  /** Validation of the loaded file and of saved entities (default 'warn') */
+  validation?: ValidationMode;
+  /** Condition operators beyond the built-in ones, known to validation */
+  operators?: ValidationOptions["operators"];
+  /** Logger for validation warnings; without one, warnings are not reported */
+  logger?: ILogger;
 }
 
 /**
@@ -15,15 +35,28 @@ export interface JSONFileAdapterOptions {
  */
 export class JSONFileAdapter implements IAMStorage {
   private filePath: string;
-  private data: { users: User[]; roles: Role[]; policies: Policy[] } = {
+  private data: {
+    users: User[];
+    roles: Role[];
+    policies: Policy[];
+    groups: Group[];
+  } = {
     users: [],
     roles: [],
     policies: [],
+    groups: [],
   };
   private loaded = false;
+  private changes = new StorageChangeEmitter();
+  private validation: AdapterValidationSettings;
 
   constructor(options: JSONFileAdapterOptions) {
     this.filePath = options.filePath;
+    this.validation = {
+      mode: options.validation ?? "warn",
+      operators: options.operators,
+      logger: options.logger,
+    };
   }
 
   private async load() {
@@ -31,11 +64,29 @@ export class JSONFileAdapter implements IAMStorage {
     try {
       const raw = await fs.readFile(this.filePath, "utf-8");
       this.data = JSON.parse(raw);
+      // Files written before groups were introduced have no groups section
+      this.data.groups ??= [];
     } catch {
-      this.data = { users: [], roles: [], policies: [] };
+      this.data = { users: [], roles: [], policies: [], groups: [] };
+    }
+    if (this.validation.mode !== "off") {
+      enforceValidation(
+        validateEntities(this.data, { operators: this.validation.operators }),
+        this.validation.mode,
+        this.validation.logger,
+        `data in ${this.filePath}`
+      );
     }
     this.loaded = true;
   }
+
+  /** Ids that references of saved entities are checked against */
+  private storedIds() {
+    return {
+      policyIds: this.data.policies.map((p) => p.id),
+      roleIds: this.data.roles.map((r) => r.id),
+    };
+  }
   private async save() {
     await fs.writeFile(
       this.filePath,
@@ -44,6 +95,14 @@ export class JSONFileAdapter implements IAMStorage {
     );
   }
 
+  /**
+   * Register a listener notified after every save/delete
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    return this.changes.subscribe(listener);
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     await this.load();
     return this.data.users.find((u) => u.id === id);
@@ -83,41 +142,106 @@ export class JSONFileAdapter implements IAMStorage {
     for (const policy of this.data.policies) yield policy;
   }
 
+  async getGroup(id: string): Promise<Group | undefined> {
+    await this.load();
+    return this.data.groups.find((g) => g.id === id);
+  }
+  async getGroups(ids: string[]): Promise<Group[]> {
+    await this.load();
+    return this.data.groups.filter((g) => ids.includes(g.id));
+  }
+  async *getAllGroups(): AsyncIterable<Group> {
+    await this.load();
+    for (const group of this.data.groups) yield group;
+  }
+  async getGroupsForUser(userId: string): Promise<Group[]> {
+    await this.load();
+    return this.data.groups.filter((g) => g.userIds.includes(userId));
+  }
+
   async saveUser(user: User): Promise<void> {
     await this.load();
+    validateBeforeSave(
+      validateUser,
+      user,
+      "user",
+      this.storedIds(),
+      this.validation
+    );
     const idx = this.data.users.findIndex((u) => u.id === user.id);
     if (idx >= 0) this.data.users[idx] = user;
     else this.data.users.push(user);
     await this.save();
+    this.changes.emit({ type: "user", operation: "save", id: user.id, entity: user });
   }
   async saveRole(role: Role): Promise<void> {
     await this.load();
+    validateBeforeSave(
+      validateRole,
+      role,
+      "role",
+      this.storedIds(),
+      this.validation
+    );
     const idx = this.data.roles.findIndex((r) => r.id === role.id);
     if (idx >= 0) this.data.roles[idx] = role;
     else this.data.roles.push(role);
     await this.save();
+    this.changes.emit({ type: "role", operation: "save", id: role.id, entity: role });
   }
   async savePolicy(policy: Policy): Promise<void> {
     await this.load();
+    validateBeforeSave(
+      validatePolicy,
+      policy,
+      "policy",
+      this.storedIds(),
+      this.validation
+    );
     const idx = this.data.policies.findIndex((p) => p.id === policy.id);
     if (idx >= 0) this.data.policies[idx] = policy;
     else this.data.policies.push(policy);
     await this.save();
+    this.changes.emit({ type: "policy", operation: "save", id: policy.id, entity: policy });
+  }
+  async saveGroup(group: Group): Promise<void> {
+    await this.load();
+    validateBeforeSave(
+      validateGroup,
+      group,
+      "group",
+      this.storedIds(),
+      this.validation
+    );
+    const idx = this.data.groups.findIndex((g) => g.id === group.id);
+    if (idx >= 0) this.data.groups[idx] = group;
+    else this.data.groups.push(group);
+    await this.save();
+    this.changes.emit({ type: "group", operation: "save", id: group.id, entity: group });
   }
 
   async deleteUser(id: string): Promise<void> {
     await this.load();
     this.data.users = this.data.users.filter((u) => u.id !== id);
     await this.save();
+    this.changes.emit({ type: "user", operation: "delete", id });
   }
   async deleteRole(id: string): Promise<void> {
     await this.load();
     this.data.roles = this.data.roles.filter((r) => r.id !== id);
     await this.save();
+    this.changes.emit({ type: "role", operation: "delete", id });
   }
   async deletePolicy(id: string): Promise<void> {
     await this.load();
     this.data.policies = this.data.policies.filter((p) => p.id !== id);
     await this.save();
+    this.changes.emit({ type: "policy", operation: "delete", id });
+  }
+  async deleteGroup(id: string): Promise<void> {
+    await this.load();
+    this.data.groups = this.data.groups.filter((g) => g.id !== id);
+    await this.save();
+    this.changes.emit({ type: "group", operation: "delete", id });
   }
 }
@@ -0,0 +1,320 @@
+/**
+ * Permission listings built on a user's resolved policies
+ * @packageDocumentation
+ */
+import type {
+  ConditionExpression,
+  Policy,
+  Statement,
+  User,
+} from "../types/entities.js";
+import type { AttachmentStep } from "../types/decision.js";
+import type {
+  CombiningAlgorithm,
+  ConditionEvaluationMode,
+  ConditionOperator,
+} from "./evaluator.js";
+import type { ILogger } from "./logger.js";
+import { evaluateStatementConditions } from "./defaultEvaluator.js";
+import {
+  matchPatternWithVariables,
+  substitutePatternVariables,
+  type VariableScope,
+} from "./variables.js";
+import {
+  matchesAny,
+  patternCovers,
+  patternsOverlap,
+} from "../utils/wildcard.js";
+
+/**
+ * A Deny statement that removes part of a grant
+ * @public
+ */
+export interface PermissionExclusion {
+  policyId: string;
+  sid?: string;
+  /** Excluded patterns (from Deny `actions` / `resources`) */
+  patterns?: string[];
+  /** Everything except these patterns is excluded (from Deny `notActions` / `notResources`) */
+  notPatterns?: string[];
+  /** Conditions of the Deny that could not be evaluated; the exclusion applies only if they hold */
+  unresolvedConditions?: ConditionExpression[];
+}
+
+/**
+ * An action or resource pattern the user is allowed, as granted by one Allow statement
+ * @public
+ */
+export interface PermissionGrant {
+  /** Allowed pattern (may contain wildcards); `*` for statements using `notActions` / `notResources` */
+  pattern: string;
+  /** Values the grant does not cover (from `notActions` / `notResources`) */
+  notPatterns?: string[];
+  policyId: string;
+  sid?: string;
+  /** Groups and roles through which the policy is attached */
+  via?: AttachmentStep[];
+  /** Conditions of the Allow that could not be evaluated; the grant applies only if they hold */
+  unresolvedConditions?: ConditionExpression[];
+  /** Deny statements overlapping the grant */
+  exclusions: PermissionExclusion[];
+}
+
+/**
+ * Options for permission listings
+ * @public
+ */
+export interface PermissionListOptions {
+  /** Request context; without it, statement conditions are reported as unresolved */
+  context?: Record<string, unknown>;
+  /** Attributes of the resource (listing actions only) */
+  resourceAttributes?: Record<string, unknown>;
+}
+
+/**
+ * Inputs shared by the permission listings
+ * @public
+ */
+export interface PermissionAnalysisInput extends PermissionListOptions {
+  user: User;
+  policies: Policy[];
+  operators: Record<string, ConditionOperator>;
+  logger: ILogger;
+  /** Policy id -> attachment path, as resolved by IAM */
+  origins?: Map<string, AttachmentStep[]>;
+  /**
+   * Combining algorithm; Deny statements only exclude under deny-overrides, and under
+   * first-applicable only from grants of later statements
+   */
+  combiningAlgorithm?: CombiningAlgorithm;
+  conditionEvaluation?: ConditionEvaluationMode;
+}
+
+type Dimension = "actions" | "resources";
+
+type ConditionStatus = "pass" | "fail" | "unresolved" | "error";
+
+function referencesResource(expr: ConditionExpression): boolean {
+  if ("anyOf" in expr) return expr.anyOf.some(referencesResource);
+  if ("allOf" in expr) return expr.allOf.some(referencesResource);
+  if ("not" in expr) return referencesResource(expr.not);
+  return (
+    expr.key.startsWith("resource.") ||
+    JSON.stringify(expr.value ?? null).includes("${resource.")
+  );
+}
+
+/**
+ * Evaluate statement conditions when possible. Without a context, and for conditions on
+ * the resource while listing resources, the outcome is unresolved.
+ */
+async function conditionStatus(
+  stmt: Statement,
+  dimension: Dimension,
+  scope: VariableScope,
+  input: PermissionAnalysisInput
+): Promise<ConditionStatus> {
+  if (!stmt.conditions || stmt.conditions.length === 0) return "pass";
+  if (input.context === undefined) return "unresolved";
+  if (dimension === "resources" && stmt.conditions.some(referencesResource)) {
+    return "unresolved";
+  }
+  const outcome = await evaluateStatementConditions(
+    stmt.conditions,
+    input.operators,
+    scope,
+    input.conditionEvaluation ?? "sequential",
+    input.logger
+  );
+  if (outcome.error) return "error";
+  return outcome.result ? "pass" : "fail";
+}
+
+/**
+ * Substitute policy variables in the listed patterns. A pattern that cannot be made
+ * concrete is dropped from a grant, and widened to `*` in an exclusion (fail closed).
+ */
+function concretePatterns(
+  patterns: string[] | undefined,
+  scope: VariableScope,
+  fallback: string | undefined
+): string[] | undefined {
+  if (!patterns) return undefined;
+  const out: string[] = [];
+  for (const pattern of patterns) {
+    const concrete = substitutePatternVariables(String(pattern), scope);
+    if (concrete !== undefined) out.push(concrete);
+    else if (fallback !== undefined) out.push(fallback);
+  }
+  return out;
+}
+
+/** Whether the statement applies to the fixed action or resource */
+function appliesTo(
+  stmt: Statement,
+  dimension: Dimension,
+  value: string,
+  scope: VariableScope
+): boolean {
+  const [include, exclude] =
+    dimension === "actions"
+      ? [stmt.resources, stmt.notResources]
+      : [stmt.actions, stmt.notActions];
+  if (!include && !exclude) return false;
+  // Unresolved resource patterns fail closed, as in the default evaluator: they
+  // widen a Deny's resources and an Allow's notResources
+  const match = (patterns: unknown[], excluding: boolean) =>
+    dimension === "actions"
+      ? patterns.some((p) =>
+          typeof p === "string"
+            ? matchPatternWithVariables(
+                p,
+                value,
+                scope,
+                excluding === (stmt.effect === "Allow")
+              )
+            : p === value
+        )
+      : matchesAny(patterns, value);
+  return (
+    (!include || match(include, false)) && (!exclude || !match(exclude, true))
+  );
+}
+
+function overlaps(exclusion: PermissionExclusion, grant: PermissionGrant) {
+  return (
+    (!exclusion.patterns ||
+      exclusion.patterns.some((p) => patternsOverlap(p, grant.pattern))) &&
+    (!exclusion.notPatterns ||
+      !exclusion.notPatterns.some((p) => patternCovers(p, grant.pattern)))
+  );
+}
+
+function removesGrant(exclusion: PermissionExclusion, grant: PermissionGrant) {
+  return (
+    !exclusion.unresolvedConditions &&
+    (!exclusion.patterns ||
+      exclusion.patterns.some((p) => patternCovers(p, grant.pattern))) &&
+    (!exclusion.notPatterns ||
+      !exclusion.notPatterns.some((p) => patternsOverlap(p, grant.pattern)))
+  );
+}
+
+async function listPermissions(
+  dimension: Dimension,
+  fixed: string,
+  input: PermissionAnalysisInput
+): Promise<PermissionGrant[]> {
+  const scope: VariableScope = {
+    user: input.user,
+    context: input.context ?? {},
+    resource:
+      dimension === "actions"
+        ? { ...input.resourceAttributes, id: fixed }
+        : undefined,
+  };
+  const notDimension = dimension === "actions" ? "notActions" : "notResources";
+  // Statement position of each grant and exclusion, for first-applicable
+  const grants: Array<{ grant: PermissionGrant; position: number }> = [];
+  const exclusions: Array<{ exclusion: PermissionExclusion; position: number }> =
+    [];
+  let position = -1;
+  const policies = [...new Map(input.policies.map((p) => [p.id, p])).values()];
+  for (const policy of policies) {
+    for (const stmt of policy.statements) {
+      position++;
+      if (stmt.effect !== "Allow" && stmt.effect !== "Deny") continue;
+      if (!appliesTo(stmt, dimension, fixed, scope)) continue;
+      const include = stmt[dimension] as string[] | undefined;
+      const exclude = stmt[notDimension] as string[] | undefined;
+      if (!include && !exclude) continue;
+      // Only resource patterns support policy variables
+      const concrete = (patterns: string[] | undefined, fallback?: string) =>
+        dimension === "resources"
+          ? concretePatterns(patterns, scope, fallback)
+          : patterns;
+      const status = await conditionStatus(stmt, dimension, scope, input);
+      const unresolvedConditions =
+        status === "unresolved" ? stmt.conditions : undefined;
+      if (stmt.effect === "Deny") {
+        // Errors fail closed: the Deny applies
+        if (status === "fail") continue;
+        exclusions.push({
+          exclusion: {
+            policyId: policy.id,
+            sid: stmt.sid,
+            patterns: concrete(include, "*"),
+            notPatterns: concrete(exclude),
+            unresolvedConditions,
+          },
+          position,
+        });
+        continue;
+      }
+      if (status === "fail" || status === "error") continue;
+      const notPatterns = concrete(exclude, "*");
+      const patterns = concrete(include) ?? ["*"];
+      for (const pattern of patterns) {
+        grants.push({
+          grant: {
+            pattern,
+            notPatterns,
+            policyId: policy.id,
+            sid: stmt.sid,
+            via: input.origins?.get(policy.id),
+            unresolvedConditions,
+            exclusions: [],
+          },
+          position,
+        });
+      }
+    }
+  }
+  const algorithm = input.combiningAlgorithm ?? "deny-overrides";
+  if (algorithm === "permit-overrides" || algorithm === "deny-unless-permit") {
+    return grants.map(({ grant }) => grant);
+  }
+  const result: PermissionGrant[] = [];
+  for (const { grant, position } of grants) {
+    // Under first-applicable, a Deny after the grant never decides where it applies
+    const relevant = exclusions
+      .filter((e) => algorithm !== "first-applicable" || e.position < position)
+      .map((e) => e.exclusion);
+    if (relevant.some((e) => removesGrant(e, grant))) continue;
+    grant.exclusions = relevant.filter((e) => overlaps(e, grant));
+    result.push(grant);
+  }
+  return result;
+}
+
+/**
+ * List the actions a user may perform on a resource, as grants from Allow statements
+ * with the Deny statements that overlap them.
+ * @param resource - Requested resource
+ * @param input - User, resolved policies and evaluation settings
+ * @returns Grants, in policy order; grants fully removed by an unconditional Deny are omitted
+ * @public
+ */
+export function listAllowedActions(
+  resource: string,
+  input: PermissionAnalysisInput
+): Promise<PermissionGrant[]> {
+  return listPermissions("actions", resource, input);
+}
+
+/**
+ * List the resource patterns on which a user may perform an action, as grants from
+ * Allow statements with the Deny statements that overlap them. Policy variables in
+ * patterns are substituted; conditions on `resource.*` are always unresolved.
+ * @param action - Requested action
+ * @param input - User, resolved policies and evaluation settings
+ * @returns Grants, in policy order; grants fully removed by an unconditional Deny are omitted
+ * @public
+ */
+export function listAllowedResources(
+  action: string,
+  input: PermissionAnalysisInput
+): Promise<PermissionGrant[]> {
+  return listPermissions("resources", action, input);
+}
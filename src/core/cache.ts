@@ -0,0 +1,230 @@
+/**
+ * Decision and policy-set cache for IAM
+ * @packageDocumentation
+ */
+import type { Policy, Role, User } from "../types/entities.js";
+import type { AttachmentStep, DecisionContext } from "../types/decision.js";
+import type { StorageChangeEvent, StorageEntityType } from "./storage.js";
+
+/**
+ * Policies resolved for a user, with the entities the resolution depended on
+ * @public
+ */
+export interface ResolvedPolicySet {
+  policies: Policy[];
+  /** Directly assigned, group-granted and inherited roles */
+  roles: Role[];
+  /** Policy id -> groups and roles through which it is attached */
+  origins: Map<string, AttachmentStep[]>;
+  /** Entity tags (e.g. `role:r1`) whose changes invalidate this set */
+  dependencies: string[];
+}
+
+/**
+ * Options for {@link DecisionCache}
+ * @public
+ */
+export interface DecisionCacheOptions {
+  /** Maximum entries kept per cache before least recently used ones are evicted (default 1000) */
+  maxEntries?: number;
+  /** Time to live in milliseconds (default 60000); 0 disables expiry */
+  ttlMs?: number;
+  /** Clock in milliseconds, mainly for tests (default Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Whether a cache lookup was served from the cache
+ * @public
+ */
+export type CacheStatus = "hit" | "miss";
+
+/**
+ * Build the tag that identifies an entity in cache dependencies.
+ * @param type - Entity type
+ * @param id - Entity id
+ * @returns Dependency tag
+ */
+export function dependencyTag(type: StorageEntityType, id: string): string {
+  return `${type}:${id}`;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+  dependencies: Set<string>;
+}
+
+/** Map-backed LRU store with TTL and dependency-based invalidation */
+class LRUStore<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+
+  constructor(
+    private maxEntries: number,
+    private ttlMs: number,
+    private now: () => number
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, dependencies: Iterable<string>): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: this.ttlMs > 0 ? this.now() + this.ttlMs : Infinity,
+      dependencies: new Set(dependencies),
+    });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  invalidate(tags: string[]): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (tags.some((tag) => entry.dependencies.has(tag))) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Serialize a value with sorted object keys, so equal contexts produce equal keys.
+ * @returns The serialized value, or undefined if it cannot be serialized (e.g. cycles)
+ */
+function stableStringify(value: unknown): string | undefined {
+  try {
+    return JSON.stringify(value, (_key, v) =>
+      v && typeof v === "object" && !Array.isArray(v)
+        ? Object.fromEntries(
+            Object.entries(v as Record<string, unknown>).sort(([a], [b]) =>
+              a < b ? -1 : a > b ? 1 : 0
+            )
+          )
+        : v
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * LRU + TTL cache for IAM decisions and resolved policy sets.
+ *
+ * @remarks
+ * Use one instance globally through `IAMOptions.cache`, or create one per request and pass it
+ * as `CanParams.cache`. Entries are invalidated when the entities they depend on change:
+ * IAM subscribes to storage adapters that support change notifications, and
+ * {@link DecisionCache.invalidate} can be called manually for other stores.
+ */
+export class DecisionCache {
+  private decisions: LRUStore<DecisionContext>;
+  private policySets: LRUStore<ResolvedPolicySet>;
+
+  constructor(options: DecisionCacheOptions = {}) {
+    const maxEntries = options.maxEntries ?? 1000;
+    const ttlMs = options.ttlMs ?? 60_000;
+    const now = options.now ?? Date.now;
+    this.decisions = new LRUStore(maxEntries, ttlMs, now);
+    this.policySets = new LRUStore(maxEntries, ttlMs, now);
+  }
+
+  /**
+   * Cache key for a user's policy set: depends on the user's own attachments only.
+   * @param user - User being evaluated
+   * @returns Cache key
+   */
+  static policySetKey(user: User): string {
+    return stableStringify([user.id, user.roleIds, user.policyIds])!;
+  }
+
+  /**
+   * Cache key for a decision.
+   * @returns Cache key, or undefined if the request cannot be serialized
+   */
+  static decisionKey(
+    user: User,
+    action: unknown,
+    resource: unknown,
+    context: unknown,
+    resourceAttributes?: Record<string, unknown>
+  ): string | undefined {
+    return stableStringify([
+      user,
+      action,
+      resource,
+      context ?? {},
+      resourceAttributes ?? {},
+    ]);
+  }
+
+  getDecision(key: string): DecisionContext | undefined {
+    return this.decisions.get(key);
+  }
+
+  setDecision(
+    key: string,
+    decision: DecisionContext,
+    dependencies: Iterable<string>
+  ): void {
+    this.decisions.set(key, decision, dependencies);
+  }
+
+  getPolicySet(key: string): ResolvedPolicySet | undefined {
+    return this.policySets.get(key);
+  }
+
+  setPolicySet(key: string, policySet: ResolvedPolicySet): void {
+    this.policySets.set(key, policySet, policySet.dependencies);
+  }
+
+  /**
+   * Drop every entry that depends on the changed entity.
+   * Saving a group also drops entries of its (possibly new) members.
+   * @param event - Storage change
+   */
+  invalidate(event: StorageChangeEvent): void {
+    const tags = [dependencyTag(event.type, event.id)];
+    if (event.type === "group" && event.entity && "userIds" in event.entity) {
+      for (const uid of event.entity.userIds) {
+        tags.push(dependencyTag("user", uid));
+      }
+    }
+    this.decisions.invalidate(tags);
+    this.policySets.invalidate(tags);
+  }
+
+  /** Remove all entries */
+  clear(): void {
+    this.decisions.clear();
+    this.policySets.clear();
+  }
+
+  /** Number of cached decisions and policy sets */
+  get size(): { decisions: number; policySets: number } {
+    return { decisions: this.decisions.size, policySets: this.policySets.size };
+  }
+}
@@ -2,20 +2,279 @@
  * Default policy evaluator for IAM
  * @packageDocumentation
  */
-import type { Policy } from "../types/entities.js";
-import type { DecisionContext } from "../types/decision.js";
-import type { PolicyEvaluator } from "./evaluator.js";
+import type { DecisionContext, EvaluationTrace } from "../types/decision.js";
+import type {
+  Condition,
+  ConditionExpression,
+  Policy,
+  Statement,
+} from "../types/entities.js";
+import type {
+  CombiningAlgorithm,
+  ConditionEvaluationMode,
+  ConditionOperator,
+  EvaluatorOptions,
+  PolicyEvaluator,
+} from "./evaluator.js";
 import type { ILogger } from "../core/logger.js";
+import { matchesAny } from "../utils/wildcard.js";
+import {
+  matchPatternWithVariables,
+  resolveConditionKey,
+  substituteVariables,
+  type VariableScope,
+} from "./variables.js";
+
+interface StatementMatch {
+  policy: Policy;
+  statement: Statement;
+}
+
+/**
+ * Pick the statement that decides the outcome according to the combining algorithm.
+ * Returns undefined when no statement is decisive (implicit deny).
+ */
+function combine(
+  algorithm: CombiningAlgorithm,
+  matches: StatementMatch[]
+): StatementMatch | undefined {
+  const firstAllow = matches.find((m) => m.statement.effect === "Allow");
+  const firstDeny = matches.find((m) => m.statement.effect === "Deny");
+  switch (algorithm) {
+    case "first-applicable":
+      return matches[0];
+    case "permit-overrides":
+      return firstAllow ?? firstDeny;
+    case "deny-unless-permit":
+      return firstAllow;
+    case "deny-overrides":
+    default:
+      return firstDeny ?? firstAllow;
+  }
+}
+
+/**
+ * Apply a positive list and its `not*` counterpart: the value must match the former
+ * (when present) and must not match the latter. A statement with neither matches nothing.
+ */
+function matchesScope<T>(
+  include: T[] | undefined,
+  exclude: T[] | undefined,
+  match: (patterns: T[], excluding: boolean) => boolean
+): boolean {
+  if (!include && !exclude) return false;
+  return (
+    (!include || match(include, false)) && (!exclude || !match(exclude, true))
+  );
+}
+
+/**
+ * Match the requested resource against statement resources, resolving policy variables.
+ * `unresolved` is the result for a pattern with a missing variable.
+ */
+function matchesResource(
+  patterns: unknown[],
+  resource: unknown,
+  scope: VariableScope,
+  unresolved: boolean
+): boolean {
+  return patterns.some((pattern) =>
+    typeof pattern === "string" && typeof resource === "string"
+      ? matchPatternWithVariables(pattern, resource, scope, unresolved)
+      : pattern === resource
+  );
+}
+
+/**
+ * Outcome of a condition expression and the paths of the conditions that decided it
+ * @public
+ */
+export interface ConditionOutcome {
+  result: boolean;
+  paths: string[];
+  /**
+   * Set when a condition could not be evaluated (its operator threw or is unknown, or
+   * a policy variable is missing): the outcome is indeterminate, whatever the nesting
+   */
+  error?: { operator: string; message: string };
+}
+
+/**
+ * Evaluate a condition expression, awaiting async operators.
+ * `anyOf` stops at the first match and `allOf` at the first failure (in sequential mode).
+ * An operator that throws (e.g. on an invalid IP address) or is unknown, and a
+ * missing policy variable, make the expression indeterminate, even under `not`.
+ */
+async function evaluateExpression(
+  expr: ConditionExpression,
+  path: string,
+  operators: Record<string, ConditionOperator>,
+  scope: VariableScope,
+  mode: ConditionEvaluationMode,
+  logger: ILogger
+): Promise<ConditionOutcome> {
+  if ("anyOf" in expr || "allOf" in expr) {
+    const any = "anyOf" in expr;
+    return evaluateGroup(
+      any ? expr.anyOf : expr.allOf,
+      any ? `${path}.anyOf` : `${path}.allOf`,
+      any,
+      operators,
+      scope,
+      mode,
+      logger
+    );
+  }
+  if ("not" in expr) {
+    const inner = await evaluateExpression(
+      expr.not,
+      `${path}.not`,
+      operators,
+      scope,
+      mode,
+      logger
+    );
+    if (inner.error) return inner;
+    return { result: !inner.result, paths: inner.paths };
+  }
+  return evaluateCondition(expr, path, operators, scope, logger);
+}
+
+/**
+ * Evaluate a single condition: substitute variables in its value, resolve its key,
+ * and call its operator. Operator errors, unknown operators and missing policy
+ * variables are returned as an indeterminate outcome, not thrown.
+ * @param cond - Condition
+ * @param path - Path of the condition in the statement, for the trace
+ * @param operators - Available condition operators
+ * @param scope - User, context and resource the condition refers to
+ * @param logger - Logger for condition checks
+ * @returns Result of the check
+ */
+export async function evaluateCondition(
+  cond: Condition,
+  path: string,
+  operators: Record<string, ConditionOperator>,
+  scope: VariableScope,
+  logger: ILogger
+): Promise<ConditionOutcome> {
+  const op = operators[cond.operator];
+  const indeterminate = (message: string): ConditionOutcome => {
+    logger.warn("Condition is indeterminate", { cond, error: message });
+    return {
+      result: false,
+      paths: [path],
+      error: { operator: cond.operator, message },
+    };
+  };
+  if (!op) {
+    return indeterminate(`Unknown condition operator "${cond.operator}"`);
+  }
+  const value = substituteVariables(cond.value, scope);
+  if (!value.resolved) {
+    return indeterminate(`Unresolved policy variable \${${value.variable}}`);
+  }
+  // Operators read `context[key]`, so hand them the resolved value under the key
+  const context = {
+    ...scope.context,
+    [cond.key]: resolveConditionKey(cond.key, scope),
+  };
+  let result: boolean;
+  try {
+    result = Boolean(await op(cond.key, value.value, context));
+  } catch (err) {
+    return indeterminate(err instanceof Error ? err.message : String(err));
+  }
+  logger.debug("Condition check", { cond, result });
+  return { result, paths: [path] };
+}
+
+/**
+ * Evaluate a list of expressions as a disjunction (`any`) or conjunction.
+ * A disjunction is decided by its first match and a conjunction by its first failure;
+ * otherwise every branch contributed to the result. Errors are decisive in both, so
+ * parallel mode reports the same outcome as sequential mode.
+ */
+async function evaluateGroup(
+  exprs: ConditionExpression[],
+  path: string,
+  any: boolean,
+  operators: Record<string, ConditionOperator>,
+  scope: VariableScope,
+  mode: ConditionEvaluationMode,
+  logger: ILogger
+): Promise<ConditionOutcome> {
+  const evaluate = (expr: ConditionExpression, i: number) =>
+    evaluateExpression(expr, `${path}[${i}]`, operators, scope, mode, logger);
+  if (mode === "parallel") {
+    const outcomes = await Promise.all(exprs.map(evaluate));
+    const decisive = outcomes.find((o) => o.error || o.result === any);
+    return (
+      decisive ?? { result: !any, paths: outcomes.flatMap((o) => o.paths) }
+    );
+  }
+  const paths: string[] = [];
+  for (let i = 0; i < exprs.length; i++) {
+    const outcome = await evaluate(exprs[i], i);
+    if (outcome.error || outcome.result === any) return outcome;
+    paths.push(...outcome.paths);
+  }
+  return { result: !any, paths };
+}
+
+/**
+ * Evaluate the conditions of a statement (ANDed) outside of a full evaluation,
+ * e.g. to list permissions. Same semantics as the default evaluator.
+ * @param conditions - Statement conditions
+ * @param operators - Available condition operators
+ * @param scope - User, context and resource the conditions refer to
+ * @param mode - Condition evaluation mode
+ * @param logger - Logger for condition checks
+ * @returns Result, deciding condition paths, and the operator error if any
+ */
+export function evaluateStatementConditions(
+  conditions: ConditionExpression[],
+  operators: Record<string, ConditionOperator>,
+  scope: VariableScope,
+  mode: ConditionEvaluationMode,
+  logger: ILogger
+): Promise<ConditionOutcome> {
+  return evaluateGroup(
+    conditions,
+    "conditions",
+    false,
+    operators,
+    scope,
+    mode,
+    logger
+  );
+}
 
 /**
  * Default policy evaluation logic: allow/deny/conditions
  * Logger is provided by IAM and passed as an option.
+ * Every statement of every policy is evaluated, and the matching statements are
+ * combined with the configured algorithm (explicit Deny wins by default).
+ * Policy variables (`${user.id}`, `${context.tenantId}`) in resources and
+ * condition values are resolved per request. `notActions`/`notResources` match
+ * everything except the listed patterns. Conditions may nest `anyOf`, `allOf` and
+ * `not` groups; the trace records which conditions decided each statement.
+ * Condition keys may be namespaced (`user.attributes.department`, `context.request.ip`,
+ * `resource.ownerId`) and are resolved before operators run.
  * @public
- * @param options - { logger } instance from IAM
+ * @param _logger - Logger instance from IAM
+ * @param options - Evaluator options (combining algorithm, condition evaluation mode)
  * @returns PolicyEvaluator
  */
-export function defaultPolicyEvaluator(_logger: ILogger): PolicyEvaluator {
+export function defaultPolicyEvaluator(
+  _logger: ILogger,
+  options: EvaluatorOptions = {}
+): PolicyEvaluator {
   const logger: ILogger = _logger;
+  const algorithm: CombiningAlgorithm =
+    options.combiningAlgorithm ?? "deny-overrides";
+  const conditionMode: ConditionEvaluationMode =
+    options.conditionEvaluation ?? "sequential";
   return async (
     user,
     action,
@@ -23,58 +282,119 @@ export function defaultPolicyEvaluator(_logger: ILogger): PolicyEvaluator {
     context,
     policies,
     roles,
-    operators
+    operators,
+    resourceAttributes
   ): Promise<DecisionContext> => {
     logger.debug("defaultPolicyEvaluator: evaluating", {
       user,
       action,
       resource,
       context,
+      algorithm,
     });
     // Flatten policies and remove duplicates to avoid evaluating the same policy twice
     // (e.g. a policy attached directly to the user and through a role)
     const allPolicies = [
       ...new Map(policies.map((p) => [p.id, p])).values(),
     ];
-    const trace: {
-      checkedPolicies: string[];
-      reason?: string;
-    } = { checkedPolicies: [], reason: "" };
+    const trace: EvaluationTrace = {
+      checkedPolicies: [],
+      matchedStatements: [],
+      failedConditions: [],
+      conditionErrors: [],
+      algorithm,
+      reason: "",
+    };
+    const scope: VariableScope = {
+      user,
+      context,
+      resource: { ...resourceAttributes, id: resource },
+    };
+    const matches: StatementMatch[] = [];
     for (const policy of allPolicies) {
       trace.checkedPolicies.push(policy.id);
       for (const stmt of policy.statements) {
+        if (stmt.effect !== "Allow" && stmt.effect !== "Deny") continue;
         if (
-          stmt.actions.includes(action) &&
-          stmt.resources.includes(resource) &&
-          (!stmt.conditions ||
-            stmt.conditions.every((cond) => {
-              const op = operators[cond.operator];
-              const result = op ? op(cond.key, cond.value, context) : false;
-              logger.debug("Condition check", { cond, result });
-              return result;
-            }))
+          !matchesScope(stmt.actions, stmt.notActions, (patterns) =>
+            matchesAny(patterns, action)
+          ) ||
+          // Unresolved patterns fail closed: they widen a Deny's resources and
+          // an Allow's exclusions, as in listAllowedResources
+          !matchesScope(stmt.resources, stmt.notResources, (patterns, excluding) =>
+            matchesResource(
+              patterns,
+              resource,
+              scope,
+              excluding === (stmt.effect === "Allow")
+            )
+          )
         ) {
-          if (stmt.effect === "Allow") {
-            trace.reason = "Allowed by policy " + policy.id;
-            logger.info("Access allowed", {
-              policyId: policy.id,
-              statement: stmt,
-            });
-            return { decision: true, trace, context };
-          }
-          if (stmt.effect === "Deny") {
-            trace.reason = "Denied by policy " + policy.id;
-            logger.warn("Access denied", {
-              policyId: policy.id,
-              statement: stmt,
-            });
-            return { decision: false, trace, context };
-          }
+          continue;
+        }
+        const conditions = stmt.conditions
+          ? await evaluateStatementConditions(
+              stmt.conditions,
+              operators,
+              scope,
+              conditionMode,
+              logger
+            )
+          : undefined;
+        if (conditions?.error) {
+          trace.conditionErrors!.push({
+            policyId: policy.id,
+            sid: stmt.sid,
+            conditionPath: conditions.paths[0],
+            ...conditions.error,
+          });
         }
+        // Indeterminate conditions fail closed: Allow does not apply, Deny does
+        if (
+          conditions &&
+          (conditions.error ? stmt.effect === "Allow" : !conditions.result)
+        ) {
+          trace.failedConditions!.push({
+            policyId: policy.id,
+            sid: stmt.sid,
+            conditionPaths: conditions.paths,
+          });
+          continue;
+        }
+        logger.debug("Statement matched", {
+          policyId: policy.id,
+          statement: stmt,
+        });
+        matches.push({ policy, statement: stmt });
+        trace.matchedStatements!.push({
+          policyId: policy.id,
+          statement: stmt,
+          conditionPaths: conditions?.paths,
+        });
       }
     }
-    trace.reason = "No matching policy";
-    logger.warn("No matching policy found", { user, action, resource });
+    const decisive = combine(algorithm, matches);
+    if (!decisive) {
+      trace.reason =
+        matches.length > 0 ? "No permitting policy" : "No matching policy";
+      logger.warn("No matching policy found", { user, action, resource });
+      return { decision: false, trace, context };
+    }
+    trace.matchedPolicy = decisive.policy;
+    trace.matchedStatement = decisive.statement;
+    if (decisive.statement.effect === "Allow") {
+      trace.reason = "Allowed by policy " + decisive.policy.id;
+      logger.info("Access allowed", {
+        policyId: decisive.policy.id,
+        statement: decisive.statement,
+      });
+      return { decision: true, trace, context };
+    }
+    trace.reason = "Denied by policy " + decisive.policy.id;
+    logger.warn("Access denied", {
+      policyId: decisive.policy.id,
+      statement: decisive.statement,
+    });
     return { decision: false, trace, context };
   };
 }
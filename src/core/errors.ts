@@ -0,0 +1,65 @@
+/**
+ * Error classes thrown by IAM and the decorators
+ * @packageDocumentation
+ */
+import type { DecisionContext, EvaluationTrace } from "../types/decision.js";
+
+/**
+ * Details of a denied request
+ * @public
+ */
+export interface AccessDeniedDetails {
+  userId?: string;
+  action?: string;
+  resource?: string;
+  /** Trace of the decision; for checks outside the policy engine, only `reason` is set */
+  trace: EvaluationTrace;
+}
+
+/**
+ * Thrown when access is denied, so that callers (e.g. HTTP layers) can tell a denial
+ * apart from a bug and report why it happened.
+ * @public
+ */
+export class AccessDeniedError extends Error {
+  readonly userId?: string;
+  readonly action?: string;
+  readonly resource?: string;
+  readonly trace: EvaluationTrace;
+
+  constructor(message: string, details: AccessDeniedDetails) {
+    super(message);
+    this.name = "AccessDeniedError";
+    this.userId = details.userId;
+    this.action = details.action;
+    this.resource = details.resource;
+    this.trace = details.trace;
+  }
+
+  /**
+   * Create the error for a denied {@link DecisionContext}
+   * @param decision - Result of `IAM.can`
+   * @param request - User id, action and resource that were checked
+   * @param message - Error message (default "Access denied")
+   * @returns The error, carrying the decision trace
+   */
+  static fromDecision(
+    decision: DecisionContext<string, string>,
+    request: { userId?: string; action: string; resource: string },
+    message = "Access denied"
+  ): AccessDeniedError {
+    return new AccessDeniedError(message, { ...request, trace: decision.trace });
+  }
+}
+
+/**
+ * Thrown when IAM is not set up correctly, e.g. no storage adapter is configured
+ * or a decorator cannot find the IAM instance
+ * @public
+ */
+export class IAMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IAMConfigurationError";
+  }
+}
@@ -30,6 +30,23 @@ export class ConditionOperatorRegistry {
     return this.operators[name];
   }
 
+  /**
+   * Check whether an operator is registered
+   * @param name - Operator name
+   * @returns true if registered
+   */
+  has(name: string): boolean {
+    return name in this.operators;
+  }
+
+  /**
+   * Get the names of all registered operators
+   * @returns Operator names
+   */
+  names(): string[] {
+    return Object.keys(this.operators);
+  }
+
   /**
    * Get all registered operators
    * @returns All operators as a record
@@ -90,6 +107,44 @@ export interface ConditionOperator {
   (key: string, value: unknown, context: Record<string, unknown>):
     | boolean
     | Promise<boolean>;
+  /**
+   * Set to false if the result can change for the same key, value and context
+   * (e.g. the operator reads the clock); decisions that evaluated it are not cached
+   */
+  cacheable?: boolean;
+}
+
+/**
+ * Strategy used to combine the effects of all matching statements.
+ * - 'deny-overrides': any matching Deny wins, otherwise any Allow permits (AWS IAM semantics)
+ * - 'permit-overrides': any matching Allow wins, otherwise any Deny denies
+ * - 'first-applicable': the first matching statement decides, in policy order
+ * - 'deny-unless-permit': permit if any Allow matches, Deny statements are ignored
+ * @public
+ */
+export type CombiningAlgorithm =
+  | "deny-overrides"
+  | "permit-overrides"
+  | "first-applicable"
+  | "deny-unless-permit";
+
+/**
+ * How the conditions of a statement are evaluated.
+ * - 'sequential': one at a time, stopping at the first condition that fails
+ * - 'parallel': all at once, useful when operators perform independent async lookups
+ * @public
+ */
+export type ConditionEvaluationMode = "sequential" | "parallel";
+
+/**
+ * Options passed by IAM to evaluator factories
+ * @public
+ */
+export interface EvaluatorOptions {
+  /** Combining algorithm (default 'deny-overrides') */
+  combiningAlgorithm?: CombiningAlgorithm;
+  /** Condition evaluation mode (default 'sequential') */
+  conditionEvaluation?: ConditionEvaluationMode;
 }
 
 /**
@@ -107,6 +162,8 @@ export interface PolicyEvaluator<
     context: Context,
     policies: Policy[],
     roles: Role[],
-    operators: Record<string, ConditionOperator>
+    operators: Record<string, ConditionOperator>,
+    /** Attributes of the requested resource, exposed to conditions as `resource.*` */
+    resourceAttributes?: Record<string, unknown>
   ): Promise<DecisionContext<Action, Resource>>;
 }
@@ -3,15 +3,56 @@
  * @packageDocumentation
  */
 
-import type { User, Role, Condition } from "../types/entities.js";
-import type { DecisionContext } from "../types/decision.js";
+import type { User, Role, Group, Policy } from "../types/entities.js";
+import type {
+  AttachmentStep,
+  DecisionContext,
+  MatchedStatement,
+} from "../types/decision.js";
 import type { IAMStorage } from "./storage.js";
 import {
+  DecisionCache,
+  dependencyTag,
+  type CacheStatus,
+  type DecisionCacheOptions,
+  type ResolvedPolicySet,
+} from "./cache.js";
+import {
+  ConditionOperatorRegistry,
   defaultConditionOperators,
+  type CombiningAlgorithm,
+  type ConditionEvaluationMode,
+  type ConditionOperator,
+  type EvaluatorOptions,
   type PolicyEvaluator,
 } from "./evaluator.js";
 import type { ILogger, IAMConfig } from "./logger.js";
 import { defaultPolicyEvaluator } from "./defaultEvaluator.js";
+import { resolveRoleHierarchy } from "./roleHierarchy.js";
+import {
+  createTimeOperators,
+  CURRENT_TIME_KEY,
+  type Clock,
+} from "./timeOperators.js";
+import { ipConditionOperators } from "./ipOperators.js";
+import {
+  listAllowedActions,
+  listAllowedResources,
+  type PermissionAnalysisInput,
+  type PermissionGrant,
+  type PermissionListOptions,
+} from "./analysis.js";
+import {
+  partialEvaluate,
+  type ResidualExpression,
+} from "./partialEvaluation.js";
+import {
+  OverlayStorage,
+  type ProposedChanges,
+  type SimulationReport,
+  type SimulationRequest,
+} from "./simulator.js";
+import { IAMConfigurationError } from "./errors.js";
 import { DefaultLogger } from "./logger.js";
 
 export interface CanParams<
@@ -23,6 +64,102 @@ export interface CanParams<
   action: Action;
   resource: Resource;
   context?: Context;
+  /**
+   * Attributes of the resource (owner, classification, ...), exposed to conditions as `resource.*`.
+   * When given, `IAMOptions.resourceResolver` is not called.
+   */
+  resourceAttributes?: Record<string, unknown>;
+  /** Request-scoped cache, used instead of the engine-wide cache for this call */
+  cache?: DecisionCache;
+}
+
+/**
+ * Looks up the attributes of a resource, e.g. its owner from a database
+ * @public
+ */
+export type ResourceAttributeResolver = (
+  resource: string,
+  params: CanParams<string, string, Record<string, unknown>>
+) =>
+  | Record<string, unknown>
+  | undefined
+  | Promise<Record<string, unknown> | undefined>;
+
+/**
+ * One request in {@link IAM.canMany}
+ * @public
+ */
+export type BatchItem<Context = Record<string, unknown>> = Omit<
+  CanParams<string, string, Context>,
+  "user" | "cache"
+>;
+
+/**
+ * Whether {@link IAM.canMany} fires the decision hooks for every item or the batch hooks once
+ * @public
+ */
+export type BatchHookMode = "per-item" | "per-batch";
+
+/**
+ * Per-call options for {@link IAM.canMany}
+ * @public
+ */
+export interface CanManyOptions {
+  /** Overrides `IAMOptions.batchHooks` */
+  batchHooks?: BatchHookMode;
+  /** Request-scoped cache, used instead of the engine-wide cache */
+  cache?: DecisionCache;
+}
+
+/**
+ * Options for {@link IAM.whoCanAccess}
+ * @public
+ */
+export interface WhoCanAccessOptions {
+  /** Request context for conditions */
+  context?: Record<string, unknown>;
+  /**
+   * Attributes of the resource, exposed to conditions as `resource.*`. When not
+   * given, `IAMOptions.resourceResolver` is called for each principal, as in `IAM.can`.
+   */
+  resourceAttributes?: Record<string, unknown>;
+}
+
+/**
+ * A user or role allowed an action on a resource, see {@link IAM.whoCanAccess}
+ * @public
+ */
+export interface AccessGrantee {
+  type: "user" | "role";
+  id: string;
+  /**
+   * Allow statements granting the access, each with its policy and the groups and
+   * roles leading to it (user → group/role → policy → statement)
+   */
+  grants: MatchedStatement[];
+}
+
+/**
+ * Roles and policies that apply to a user, see {@link IAM.getMemberships}
+ * @public
+ */
+export interface UserMemberships {
+  /** Roles assigned directly, through groups, or inherited through `parentRoleIds` */
+  roleIds: string[];
+  /** Policies attached directly, through groups, or through any of the roles */
+  policyIds: string[];
+}
+
+/** Entity lookups used to resolve a policy set */
+type EntityLookup = Pick<
+  IAMStorage,
+  "getPolicies" | "getRoles" | "getGroupsForUser"
+>;
+
+/** A policy set and whether it came from the cache */
+interface LoadedPolicySet {
+  policySet: ResolvedPolicySet;
+  status?: CacheStatus;
 }
 
 /**
@@ -30,8 +167,42 @@ export interface CanParams<
  */
 export interface IAMOptions {
   storage?: IAMStorage;
-  evaluatorFunc?: (logger: ILogger) => PolicyEvaluator;
+  evaluatorFunc?: (
+    logger: ILogger,
+    options?: EvaluatorOptions
+  ) => PolicyEvaluator;
   config?: IAMConfig;
+  /**
+   * How matching statements are combined (default 'deny-overrides':
+   * an explicit Deny always wins over Allow, regardless of policy order)
+   */
+  combiningAlgorithm?: CombiningAlgorithm;
+  /**
+   * Whether statement conditions are awaited one at a time with short-circuit
+   * ('sequential', default) or all at once ('parallel')
+   */
+  conditionEvaluation?: ConditionEvaluationMode;
+  /** Maximum depth of role inheritance through `Role.parentRoleIds` (default 10) */
+  maxRoleDepth?: number;
+  /**
+   * Custom condition operators, merged with (and able to override) the defaults.
+   * A registry is read on every evaluation, so operators registered later are picked up.
+   */
+  operators?: ConditionOperatorRegistry | Record<string, ConditionOperator>;
+  /**
+   * Engine-wide decision cache (LRU + TTL). Pass a DecisionCache or its options.
+   * Entries are invalidated automatically when the storage supports change notifications.
+   */
+  cache?: DecisionCache | DecisionCacheOptions;
+  /** Source of the current time for date and time operators (default: system clock) */
+  clock?: Clock;
+  /**
+   * Resolves resource attributes for conditions such as `resource.ownerId eq ${user.id}`;
+   * called by `can` unless the caller passes `resourceAttributes`
+   */
+  resourceResolver?: ResourceAttributeResolver;
+  /** How `canMany` fires hooks (default 'per-item') */
+  batchHooks?: BatchHookMode;
   hooks?: {
     /** Called before evaluation starts */
     onBeforeDecision?: <Action, Resource>(
@@ -62,6 +233,13 @@ export interface IAMOptions {
       ctx: DecisionContext<Action, Resource>
     ) => void | Promise<void>;
     onError?: (err: unknown) => void | Promise<void>;
+    /** Called before a `canMany` batch starts (with `batchHooks: 'per-batch'`) */
+    onBeforeBatch?: (user: User, items: BatchItem<any>[]) => void | Promise<void>;
+    /** Called after a `canMany` batch completes (with `batchHooks: 'per-batch'`) */
+    onAfterBatch?: (
+      results: DecisionContext[],
+      err: unknown | undefined
+    ) => void | Promise<void>;
   };
 }
 
@@ -83,6 +261,20 @@ export class IAM {
   private logger: ILogger;
   /** Config object */
   private config: IAMConfig;
+  /** Custom condition operators */
+  private customOperators?: IAMOptions["operators"];
+  /** Maximum role inheritance depth */
+  private maxRoleDepth?: number;
+  /** Engine-wide decision cache */
+  private cache?: DecisionCache;
+  /** Built-in date and time operators, bound to the configured clock */
+  private timeOperators: Record<string, ConditionOperator>;
+  /** Resource attribute lookup */
+  private resourceResolver?: ResourceAttributeResolver;
+  /** How canMany fires hooks */
+  private batchHooks: BatchHookMode;
+  /** Options passed to the evaluator, reused by permission listings */
+  private evaluatorOptions: EvaluatorOptions;
 
   /**
    * Create a new IAM engine instance.
@@ -92,6 +284,11 @@ export class IAM {
     this.storage = options?.storage;
     this.hooks = options?.hooks;
     this.config = options?.config || {};
+    this.customOperators = options?.operators;
+    this.maxRoleDepth = options?.maxRoleDepth;
+    this.timeOperators = createTimeOperators(options?.clock);
+    this.resourceResolver = options?.resourceResolver;
+    this.batchHooks = options?.batchHooks ?? "per-item";
     // Use provided logger or default
     const { logger, logLevel } = this.config;
     if (logger) {
@@ -100,11 +297,56 @@ export class IAM {
       // Lazy import to avoid circular deps
       this.logger = new DefaultLogger(logLevel || "info");
     }
+    const evaluatorOptions: EvaluatorOptions = {
+      combiningAlgorithm: options?.combiningAlgorithm,
+      conditionEvaluation: options?.conditionEvaluation,
+    };
+    this.evaluatorOptions = evaluatorOptions;
+    if (options?.cache) {
+      this.cache =
+        options.cache instanceof DecisionCache
+          ? options.cache
+          : new DecisionCache(options.cache);
+      if (this.storage?.subscribe) {
+        this.storage.subscribe((event) => this.cache!.invalidate(event));
+      } else {
+        this.logger.warn(
+          "Storage does not support change notifications; call clearCache() after writes"
+        );
+      }
+    }
     this.evaluator =
       (options &&
         options?.evaluatorFunc &&
-        options.evaluatorFunc(this.logger)) ||
-      defaultPolicyEvaluator(this.logger);
+        options.evaluatorFunc(this.logger, evaluatorOptions)) ||
+      defaultPolicyEvaluator(this.logger, evaluatorOptions);
+  }
+
+  /**
+   * Resolve the condition operators available to the evaluator:
+   * the defaults, IP and time operators merged with any custom operators.
+   * @returns Operators keyed by name
+   */
+  private resolveOperators(): Record<string, ConditionOperator> {
+    const custom =
+      this.customOperators instanceof ConditionOperatorRegistry
+        ? this.customOperators.all()
+        : this.customOperators;
+    return {
+      ...defaultConditionOperators,
+      ...ipConditionOperators,
+      ...this.timeOperators,
+      ...custom,
+    };
+  }
+
+  /**
+   * List the names of all condition operators known to this engine,
+   * e.g. to validate policies before saving them.
+   * @returns Operator names
+   */
+  listConditionOperators(): string[] {
+    return Object.keys(this.resolveOperators());
   }
 
   /**
@@ -124,100 +366,95 @@ export class IAM {
   async can<Context = Record<string, unknown>>(
     params: CanParams<string, string, Context>
   ): Promise<DecisionContext<string, string>> {
-    let result: DecisionContext<string, string> | undefined = undefined;
+    return this.withDecisionHooks(params, () => {
+      const cache = params.cache ?? this.cache;
+      return this.decide(params, cache, () =>
+        this.loadPolicySet(params.user, cache)
+      );
+    });
+  }
+
+  /**
+   * Evaluate several requests of one user, resolving the user's policy set only once.
+   *
+   * @remarks
+   * With `batchHooks: 'per-item'` (default) the decision hooks fire for every item as in
+   * {@link IAM.can}; with `'per-batch'` only `onBeforeBatch` and `onAfterBatch` fire.
+   * `onError` fires for every failed item in both modes.
+   *
+   * @param user - User making the requests
+   * @param items - Action, resource and optional context/resource attributes per request
+   * @param options - Per-call overrides for hook mode and cache
+   * @returns One DecisionContext per item, in order
+   */
+  async canMany<Context = Record<string, unknown>>(
+    user: User,
+    items: BatchItem<Context>[],
+    options?: CanManyOptions
+  ): Promise<DecisionContext<string, string>[]> {
+    const perItem = (options?.batchHooks ?? this.batchHooks) === "per-item";
+    const cache = options?.cache ?? this.cache;
+    let policySet: Promise<LoadedPolicySet> | undefined;
+    const load = () => (policySet ??= this.loadPolicySet(user, cache));
+    const results: DecisionContext<string, string>[] = [];
     let error: unknown = undefined;
     try {
-      this.logger.debug("IAM.can called", params);
-      if (this.hooks?.onBeforeDecision)
-        await this.hooks.onBeforeDecision(params);
-      if (!this.storage) {
-        this.logger.error("No storage adapter configured");
-        throw new Error("No storage adapter configured");
+      if (!perItem && this.hooks?.onBeforeBatch) {
+        await this.hooks.onBeforeBatch(user, items);
       }
-      const user = params.user;
-      // Storage access with hook and logging
-      const callStorage = async (method: keyof IAMStorage, ...args: any[]) => {
-        this.logger.debug(`Storage access: ${String(method)}`, ...args);
-        if (this.hooks?.onStorageAccess) {
-          await this.hooks.onStorageAccess(method as string, args);
-        }
-        const res = await (this.storage as any)[method](...args);
-        this.logger.debug(`Storage result: ${String(method)}`, res);
-        return res;
-      };
-      // Fetch user-attached policies and roles
-      const [userPolicies, userRoles] = await Promise.all([
-        callStorage("getPolicies", user.policyIds),
-        callStorage("getRoles", user.roleIds),
-      ]);
-      // User/role not found hooks
-      if (this.hooks?.onRoleNotFound) {
-        if (params.user.roleIds.length === 0) {
-          this.logger.warn("User has no roles", params.user.id);
-          await this.hooks.onRoleNotFound(null);
-        } else if (userRoles == undefined || userRoles.length === 0) {
-          for (const rid of user.roleIds) {
-            this.logger.warn("Role not found", rid);
-            await this.hooks.onRoleNotFound(rid);
-          }
-        } else if (userRoles.some((r: Role | undefined) => !r)) {
-          for (const rid of user.roleIds) {
-            if (!userRoles.find((r: Role | undefined) => r && r.id === rid)) {
-              this.logger.warn("Role not found", rid);
-              await this.hooks.onRoleNotFound(rid);
-            }
-          }
-        }
+      for (const item of items) {
+        const params: CanParams<string, string, Context> = { ...item, user };
+        const decide = () => this.decide(params, cache, load);
+        results.push(
+          perItem
+            ? await this.withDecisionHooks(params, decide)
+            : await decide().catch((err) =>
+                this.failDecision(err, params.context)
+              )
+        );
       }
-      // Collect all policies from user and roles
-      const rolePolicyIds = userRoles.flatMap((r: Role) => r.policyIds);
-      const rolePolicies = await callStorage("getPolicies", rolePolicyIds);
-      const allPolicies = [...userPolicies, ...rolePolicies];
-      // Patch operators to call onConditionCheck and log
-      const operators: typeof defaultConditionOperators = {
-        ...defaultConditionOperators,
-      };
-      if (this.hooks?.onConditionCheck) {
-        for (const [name, op] of Object.entries(defaultConditionOperators)) {
-          operators[name] = async (
-            key: string,
-            value: unknown,
-            ctx: Record<string, unknown>
-          ) => {
-            const res = await op(key, value, ctx);
-            this.logger.debug(
-              `ConditionCheck: ${name}`,
-              key,
-              value,
-              ctx,
-              res
-            );
-            await this.hooks!.onConditionCheck!(name, key, value, ctx, res);
-            return res;
-          };
+      return results;
+    } catch (err) {
+      error = err;
+      const denied = await this.failDecision(err, undefined);
+      results.length = 0;
+      for (const item of items) {
+        results.push({
+          ...denied,
+          context: (item.context ?? {}) as Record<string, unknown>,
+        });
+      }
+      return results;
+    } finally {
+      if (!perItem && this.hooks?.onAfterBatch) {
+        try {
+          await this.hooks.onAfterBatch(results, error);
+        } catch (err) {
+          console.error("Error in onAfterBatch hook:", err);
         }
       }
-      result = await this.evaluator(
-        user,
-        params.action,
-        params.resource,
-        params.context ?? {},
-        allPolicies,
-        userRoles,
-        operators
-      );
-      this.logger.info("IAM decision", result);
+    }
+  }
+
+  /**
+   * Run a decision with the decision hooks, turning errors into a deny
+   */
+  private async withDecisionHooks<Context>(
+    params: CanParams<string, string, Context>,
+    decide: () => Promise<DecisionContext<string, string>>
+  ): Promise<DecisionContext<string, string>> {
+    let result: DecisionContext<string, string> | undefined = undefined;
+    let error: unknown = undefined;
+    try {
+      this.logger.debug("IAM.can called", params);
+      if (this.hooks?.onBeforeDecision)
+        await this.hooks.onBeforeDecision(params);
+      result = await decide();
       if (this.hooks?.onDecision) await this.hooks.onDecision(result);
       return result;
     } catch (err) {
       error = err;
-      this.logger.error("IAM error", err);
-      if (this.hooks?.onError) await this.hooks.onError(err);
-      return {
-        decision: false,
-        trace: { checkedPolicies: [], reason: (err as Error).message },
-        context: params.context || {},
-      };
+      return this.failDecision(err, params.context);
     } finally {
       if (this.hooks?.onAfterDecision) {
         try {
@@ -228,4 +465,585 @@ export class IAM {
       }
     }
   }
+
+  /**
+   * Log and report an error, and deny with the error message as reason and the
+   * error in the trace
+   */
+  private async failDecision(
+    err: unknown,
+    context: unknown
+  ): Promise<DecisionContext<string, string>> {
+    this.logger.error("IAM error", err);
+    if (this.hooks?.onError) await this.hooks.onError(err);
+    return {
+      decision: false,
+      trace: {
+        checkedPolicies: [],
+        reason: (err as Error).message,
+        error: err,
+      },
+      context: (context as Record<string, unknown>) || {},
+    };
+  }
+
+  /**
+   * Evaluate one request: resource attributes, decision cache, policy set, evaluator
+   */
+  private async decide<Context>(
+    params: CanParams<string, string, Context>,
+    cache: DecisionCache | undefined,
+    loadPolicySet: () => Promise<LoadedPolicySet>
+  ): Promise<DecisionContext<string, string>> {
+    this.requireStorage();
+    const user = params.user;
+    const context = (params.context ?? {}) as Record<string, unknown>;
+    const resourceAttributes =
+      params.resourceAttributes ??
+      (this.resourceResolver &&
+        (await this.resourceResolver(
+          params.resource,
+          params as CanParams<string, string, Record<string, unknown>>
+        )));
+    const decisionKey = cache
+      ? DecisionCache.decisionKey(
+          user,
+          params.action,
+          params.resource,
+          context,
+          resourceAttributes
+        )
+      : undefined;
+    const cached = decisionKey ? cache!.getDecision(decisionKey) : undefined;
+    if (cached) {
+      this.logger.debug("Decision cache hit", decisionKey);
+      const result: DecisionContext<string, string> = {
+        ...cached,
+        trace: { ...cached.trace, cache: { decision: "hit" } },
+        context,
+      };
+      this.logger.info("IAM decision", result);
+      return result;
+    }
+    const { policySet, status } = await loadPolicySet();
+    let cacheable = true;
+    const result = await this.evaluate(
+      params,
+      context,
+      resourceAttributes,
+      policySet,
+      cache
+        ? this.wrapOperators(() => {
+            cacheable = false;
+          })
+        : undefined
+    );
+    if (cache) {
+      result.trace.cache = { decision: "miss", policySet: status };
+      if (decisionKey && cacheable) {
+        cache.setDecision(
+          decisionKey,
+          { ...result, trace: { ...result.trace } },
+          policySet.dependencies
+        );
+      }
+    }
+    this.logger.info("IAM decision", result);
+    return result;
+  }
+
+  /**
+   * Run the evaluator on a resolved policy set and record attachment paths
+   */
+  private async evaluate<Context>(
+    params: CanParams<string, string, Context>,
+    context: Record<string, unknown>,
+    resourceAttributes: Record<string, unknown> | undefined,
+    policySet: ResolvedPolicySet,
+    operators = this.wrapOperators()
+  ): Promise<DecisionContext<string, string>> {
+    const result = await this.evaluator(
+      params.user,
+      params.action,
+      params.resource,
+      context,
+      policySet.policies,
+      policySet.roles,
+      operators,
+      resourceAttributes
+    );
+    for (const match of result.trace.matchedStatements ?? []) {
+      match.via = policySet.origins.get(match.policyId);
+    }
+    if (result.trace.matchedPolicy) {
+      result.trace.matchedVia = policySet.origins.get(
+        result.trace.matchedPolicy.id
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Get the user's policy set from the cache, or resolve it through storage
+   */
+  private async loadPolicySet(
+    user: User,
+    cache: DecisionCache | undefined
+  ): Promise<LoadedPolicySet> {
+    if (!cache) return { policySet: await this.resolvePolicySet(user) };
+    const key = DecisionCache.policySetKey(user);
+    const cached = cache.getPolicySet(key);
+    if (cached) return { policySet: cached, status: "hit" };
+    const policySet = await this.resolvePolicySet(user);
+    cache.setPolicySet(key, policySet);
+    return { policySet, status: "miss" };
+  }
+
+  /**
+   * Resolve the roles and policies that apply to a user, e.g. for role checks.
+   * Uses the decision cache when configured; missing entities are left out.
+   * @param user - User to inspect
+   * @returns Ids of the user's effective roles and policies
+   */
+  async getMemberships(user: User): Promise<UserMemberships> {
+    this.requireStorage();
+    const { policySet } = await this.loadPolicySet(user, this.cache);
+    return {
+      roleIds: policySet.roles.map((r) => r.id),
+      policyIds: [...new Set(policySet.policies.map((p) => p.id))],
+    };
+  }
+
+  /**
+   * List the actions a user may perform on a resource, from the user's resolved policies.
+   * Deny statements are reported as exclusions (or remove a grant entirely), and
+   * conditions are reported as unresolved unless a context is given.
+   * @param user - User to inspect
+   * @param resource - Resource to inspect
+   * @param options - Context and resource attributes for evaluating conditions
+   * @returns Allowed action patterns with their exclusions
+   */
+  async listAllowedActions(
+    user: User,
+    resource: string,
+    options: PermissionListOptions = {}
+  ): Promise<PermissionGrant[]> {
+    const resourceAttributes =
+      options.resourceAttributes ??
+      (this.resourceResolver &&
+        (await this.resourceResolver(resource, {
+          user,
+          action: "*",
+          resource,
+          context: options.context,
+        })));
+    return listAllowedActions(resource, {
+      ...(await this.analysisInput(user, options)),
+      resourceAttributes,
+    });
+  }
+
+  /**
+   * List the resource patterns on which a user may perform an action,
+   * e.g. to build a database filter for "documents this user can read".
+   * @param user - User to inspect
+   * @param action - Action to inspect
+   * @param options - Context for evaluating conditions
+   * @returns Allowed resource patterns with their exclusions
+   */
+  async listAllowedResources(
+    user: User,
+    action: string,
+    options: PermissionListOptions = {}
+  ): Promise<PermissionGrant[]> {
+    return listAllowedResources(
+      action,
+      await this.analysisInput(user, options)
+    );
+  }
+
+  /**
+   * Partially evaluate the user's policies for an action, leaving what depends on
+   * the resource as a residual expression to translate into a database query.
+   * Decisions are consistent with {@link IAM.can} for any resource.
+   * @param user - User to inspect
+   * @param action - Action to inspect
+   * @param options - Context for evaluating conditions; without it, conditions on
+   * the context stay in the residual
+   * @returns `allow-all`, `deny-all`, or a boolean tree over the resource
+   */
+  async partialEvaluate(
+    user: User,
+    action: string,
+    options: Pick<PermissionListOptions, "context"> = {}
+  ): Promise<ResidualExpression> {
+    return partialEvaluate(action, await this.analysisInput(user, options));
+  }
+
+  /**
+   * Preview the effect of unsaved policy and role edits: evaluate each request with
+   * the current storage and with the changes overlaid, and report the decisions
+   * that flip. Storage is never written to.
+   *
+   * @remarks
+   * Requests are evaluated as in {@link IAM.can}, without decision hooks or cache.
+   * Errors are not turned into denies, so a broken change fails the simulation.
+   *
+   * @example
+   * const report = await iam.simulate({ policies: [proposedPolicy] }, recordedRequests);
+   * for (const { request, before, after } of report.flipped) {
+   *   console.log(request.user.id, request.action, before.decision, '->', after.decision);
+   * }
+   *
+   * @param changes - Proposed policy and role edits
+   * @param requests - Recorded or generated requests (may be streamed)
+   * @returns Number of requests evaluated and the flipped decisions with both traces
+   */
+  async simulate<Context = Record<string, unknown>>(
+    changes: ProposedChanges,
+    requests:
+      | Iterable<SimulationRequest<Context>>
+      | AsyncIterable<SimulationRequest<Context>>
+  ): Promise<SimulationReport<Context>> {
+    const storage = this.requireStorage();
+    const overlay = new OverlayStorage(storage, changes);
+    const operators = this.wrapOperators();
+    const report: SimulationReport<Context> = { evaluated: 0, flipped: [] };
+    for await (const request of requests) {
+      const context = (request.context ?? {}) as Record<string, unknown>;
+      const resourceAttributes =
+        request.resourceAttributes ??
+        (this.resourceResolver &&
+          (await this.resourceResolver(
+            request.resource,
+            request as CanParams<string, string, Record<string, unknown>>
+          )));
+      const decide = async (lookup: EntityLookup) =>
+        this.evaluate(
+          request,
+          context,
+          resourceAttributes,
+          await this.resolvePolicySet(request.user, lookup),
+          operators
+        );
+      const before = await decide(this.storageLookup());
+      const after = await decide(overlay);
+      report.evaluated++;
+      if (before.decision !== after.decision) {
+        report.flipped.push({ request, before, after });
+      }
+    }
+    this.logger.info("IAM simulation", {
+      evaluated: report.evaluated,
+      flipped: report.flipped.length,
+    });
+    return report;
+  }
+
+  /**
+   * Find every user and role allowed an action on a resource, e.g. for a security
+   * review of "who can delete `billing:*`?".
+   *
+   * @remarks
+   * Roles, policies and groups are read once through `getAllRoles`, `getAllPolicies`
+   * and `getAllGroups`; users are streamed through `getAllUsers`, so large user sets
+   * are never held in memory. Each principal is evaluated as in {@link IAM.can},
+   * without decision hooks or cache. Roles are checked on their own (with their
+   * inherited roles) for a user with no attributes, so conditions on the user only
+   * hold for the users that actually have the role.
+   *
+   * @example
+   * for await (const grantee of iam.whoCanAccess('delete', 'billing:invoices')) {
+   *   console.log(grantee.type, grantee.id, grantee.grants.map((g) => g.via));
+   * }
+   *
+   * @param action - Action to inspect
+   * @param resource - Resource to inspect
+   * @param options - Context and resource attributes for conditions
+   * @returns Allowed roles, then allowed users, with the statements granting access
+   */
+  async *whoCanAccess(
+    action: string,
+    resource: string,
+    options: WhoCanAccessOptions = {}
+  ): AsyncIterable<AccessGrantee> {
+    const storage = this.requireStorage();
+    const collect = async <T extends { id: string }>(
+      items: AsyncIterable<T>
+    ) => {
+      const byId = new Map<string, T>();
+      for await (const item of items) byId.set(item.id, item);
+      return byId;
+    };
+    const [roles, policies, groups] = await Promise.all([
+      collect(storage.getAllRoles()),
+      collect(storage.getAllPolicies()),
+      collect(storage.getAllGroups()),
+    ]);
+    const lookup: EntityLookup = {
+      getPolicies: async (ids) =>
+        ids.map((id) => policies.get(id)).filter(Boolean) as Policy[],
+      getRoles: async (ids) =>
+        ids.map((id) => roles.get(id)).filter(Boolean) as Role[],
+      getGroupsForUser: async (id) =>
+        [...groups.values()].filter((g) => g.userIds.includes(id)),
+    };
+    const operators = this.wrapOperators();
+    const grantsFor = async (user: User) => {
+      const resourceAttributes =
+        options.resourceAttributes ??
+        (this.resourceResolver &&
+          (await this.resourceResolver(resource, {
+            user,
+            action,
+            resource,
+            context: options.context,
+          })));
+      const result = await this.evaluate(
+        { user, action, resource },
+        options.context ?? {},
+        resourceAttributes,
+        await this.resolvePolicySet(user, lookup),
+        operators
+      );
+      if (!result.decision) return undefined;
+      const { matchedStatements, matchedPolicy, matchedStatement } =
+        result.trace;
+      const matched =
+        matchedStatements ??
+        (matchedPolicy && matchedStatement
+          ? [
+              {
+                policyId: matchedPolicy.id,
+                statement: matchedStatement,
+                via: result.trace.matchedVia,
+              },
+            ]
+          : []);
+      return matched.filter((m) => m.statement.effect === "Allow");
+    };
+    for (const role of roles.values()) {
+      const grants = await grantsFor({
+        id: "",
+        roleIds: [role.id],
+        policyIds: [],
+      });
+      if (grants) yield { type: "role", id: role.id, grants };
+    }
+    for await (const user of storage.getAllUsers()) {
+      const grants = await grantsFor(user);
+      if (grants) yield { type: "user", id: user.id, grants };
+    }
+  }
+
+  /**
+   * Resolve the user's policies for permission listings
+   */
+  private async analysisInput(
+    user: User,
+    options: PermissionListOptions
+  ): Promise<PermissionAnalysisInput> {
+    this.requireStorage();
+    const { policySet } = await this.loadPolicySet(user, this.cache);
+    return {
+      user,
+      context: options.context,
+      policies: policySet.policies,
+      origins: policySet.origins,
+      operators: this.wrapOperators(),
+      logger: this.logger,
+      combiningAlgorithm: this.evaluatorOptions.combiningAlgorithm,
+      conditionEvaluation: this.evaluatorOptions.conditionEvaluation,
+    };
+  }
+
+  /**
+   * Drop all cached decisions and policy sets, e.g. after writing to a storage
+   * that does not support change notifications.
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Get the storage adapter, or throw if none is configured
+   */
+  private requireStorage(): IAMStorage {
+    if (!this.storage) {
+      this.logger.error("No storage adapter configured");
+      throw new IAMConfigurationError("No storage adapter configured");
+    }
+    return this.storage;
+  }
+
+  /**
+   * Storage access with hook and logging
+   */
+  private async callStorage(method: keyof IAMStorage, ...args: any[]) {
+    this.logger.debug(`Storage access: ${String(method)}`, ...args);
+    if (this.hooks?.onStorageAccess) {
+      await this.hooks.onStorageAccess(method as string, args);
+    }
+    const res = await (this.storage as any)[method](...args);
+    this.logger.debug(`Storage result: ${String(method)}`, res);
+    return res;
+  }
+
+  /**
+   * Patch operators to call onConditionCheck and log
+   */
+  private wrapOperators(
+    onUncacheable?: () => void
+  ): Record<string, ConditionOperator> {
+    const available = this.resolveOperators();
+    const operators: Record<string, ConditionOperator> = { ...available };
+    if (this.hooks?.onConditionCheck || onUncacheable) {
+      for (const [name, op] of Object.entries(available)) {
+        operators[name] = async (
+          key: string,
+          value: unknown,
+          ctx: Record<string, unknown>
+        ) => {
+          // Reading the current time makes the decision valid only for now
+          if (op.cacheable === false || key === CURRENT_TIME_KEY) {
+            onUncacheable?.();
+          }
+          const res = await op(key, value, ctx);
+          if (this.hooks?.onConditionCheck) {
+            this.logger.debug(`ConditionCheck: ${name}`, key, value, ctx, res);
+            await this.hooks.onConditionCheck(name, key, value, ctx, res);
+          }
+          return res;
+        };
+      }
+    }
+    return operators;
+  }
+
+  /**
+   * Entity lookups through the storage adapter, with hooks and logging
+   */
+  private storageLookup(): EntityLookup {
+    return {
+      getPolicies: (ids) => this.callStorage("getPolicies", ids),
+      getRoles: (ids) => this.callStorage("getRoles", ids),
+      getGroupsForUser: (id) => this.callStorage("getGroupsForUser", id),
+    };
+  }
+
+  /**
+   * Collect every policy that applies to a user: attached directly, through groups,
+   * through roles, and through inherited roles.
+   * @param user - User being evaluated
+   * @param lookup - Entity lookups (default: the storage adapter)
+   * @returns Resolved policy set with attachment paths and dependencies
+   */
+  private async resolvePolicySet(
+    user: User,
+    lookup: EntityLookup = this.storageLookup()
+  ): Promise<ResolvedPolicySet> {
+    // Fetch user-attached policies, roles and groups
+    const [userPolicies, userRoles, groups] = await Promise.all([
+      lookup.getPolicies(user.policyIds),
+      lookup.getRoles(user.roleIds),
+      lookup.getGroupsForUser(user.id),
+    ]);
+    // User/role not found hooks
+    if (this.hooks?.onRoleNotFound) {
+      if (user.roleIds.length === 0) {
+        this.logger.warn("User has no roles", user.id);
+        await this.hooks.onRoleNotFound(null);
+      } else if (userRoles == undefined || userRoles.length === 0) {
+        for (const rid of user.roleIds) {
+          this.logger.warn("Role not found", rid);
+          await this.hooks.onRoleNotFound(rid);
+        }
+      } else if (userRoles.some((r: Role | undefined) => !r)) {
+        for (const rid of user.roleIds) {
+          if (!userRoles.find((r: Role | undefined) => r && r.id === rid)) {
+            this.logger.warn("Role not found", rid);
+            await this.hooks.onRoleNotFound(rid);
+          }
+        }
+      }
+    }
+    // Roles granted through group membership (not already assigned directly)
+    const groupOfRole = new Map<string, Group>();
+    for (const group of groups) {
+      for (const rid of group.roleIds) {
+        if (!user.roleIds.includes(rid) && !groupOfRole.has(rid)) {
+          groupOfRole.set(rid, group);
+        }
+      }
+    }
+    const groupRoleIds = [...groupOfRole.keys()];
+    const groupRoles: Role[] =
+      groupRoleIds.length > 0
+        ? await lookup.getRoles(groupRoleIds)
+        : [];
+    if (this.hooks?.onRoleNotFound) {
+      for (const rid of groupRoleIds) {
+        if (!groupRoles.find((r) => r && r.id === rid)) {
+          this.logger.warn("Role not found", rid);
+          await this.hooks.onRoleNotFound(rid);
+        }
+      }
+    }
+    // Resolve inherited roles through parentRoleIds
+    const hierarchy = await resolveRoleHierarchy(
+      [...userRoles, ...groupRoles],
+      (ids) => lookup.getRoles(ids),
+      { maxDepth: this.maxRoleDepth, logger: this.logger }
+    );
+    if (this.hooks?.onRoleNotFound) {
+      for (const rid of hierarchy.missing) {
+        await this.hooks.onRoleNotFound(rid);
+      }
+    }
+    // Collect all policies from user, groups and roles, remembering how each one is attached
+    const origins = new Map<string, AttachmentStep[]>();
+    for (const pid of user.policyIds) origins.set(pid, []);
+    for (const group of groups) {
+      for (const pid of group.policyIds) {
+        if (!origins.has(pid)) origins.set(pid, [{ type: "group", id: group.id }]);
+      }
+    }
+    for (const role of hierarchy.roles) {
+      const path = hierarchy.paths.get(role.id)!;
+      const group = groupOfRole.get(path[0]);
+      const via: AttachmentStep[] = [
+        ...(group ? [{ type: "group" as const, id: group.id }] : []),
+        ...path.map((id): AttachmentStep => ({ type: "role", id })),
+      ];
+      for (const pid of role.policyIds) {
+        if (!origins.has(pid)) origins.set(pid, via);
+      }
+    }
+    const groupPolicyIds = groups.flatMap((g) => g.policyIds);
+    const rolePolicyIds = hierarchy.roles.flatMap((r: Role) => r.policyIds);
+    const [groupPolicies, rolePolicies] = await Promise.all([
+      groupPolicyIds.length > 0
+        ? lookup.getPolicies(groupPolicyIds)
+        : Promise.resolve([]),
+      lookup.getPolicies(rolePolicyIds),
+    ]);
+    // Everything referenced, found or not, so that creating a missing entity invalidates too
+    const dependencies = [
+      dependencyTag("user", user.id),
+      ...groups.map((g) => dependencyTag("group", g.id)),
+      ...[
+        ...user.roleIds,
+        ...groupRoleIds,
+        ...hierarchy.roles.map((r) => r.id),
+        ...hierarchy.missing,
+      ].map((id) => dependencyTag("role", id)),
+      ...[...origins.keys()].map((id) => dependencyTag("policy", id)),
+    ];
+    return {
+      policies: [...userPolicies, ...groupPolicies, ...rolePolicies],
+      roles: hierarchy.roles,
+      origins,
+      dependencies,
+    };
+  }
 }
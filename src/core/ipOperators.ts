@@ -0,0 +1,161 @@
+/**
+ * IP address condition operators (IPv4 and IPv6 CIDR ranges)
+ * @packageDocumentation
+ */
+import type { ConditionOperator } from "./evaluator.js";
+
+/**
+ * A parsed IP address
+ * @public
+ */
+export interface IPAddress {
+  version: 4 | 6;
+  /** Address as an unsigned integer (32 or 128 bits) */
+  value: bigint;
+}
+
+/**
+ * A parsed CIDR block; a bare address is a block of one
+ * @public
+ */
+export interface CIDRBlock extends IPAddress {
+  prefixLength: number;
+}
+
+const IPV4_PART = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const IPV6_GROUP = /^[0-9a-f]{1,4}$/i;
+/** `::ffff:0:0/96`, the prefix of IPv4-mapped IPv6 addresses */
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+
+function parseIPv4(text: string): bigint | undefined {
+  const parts = text.split(".");
+  if (parts.length !== 4 || !parts.every((p) => IPV4_PART.test(p))) {
+    return undefined;
+  }
+  return parts.reduce((acc, p) => (acc << 8n) | BigInt(p), 0n);
+}
+
+function parseIPv6(text: string): bigint | undefined {
+  // Zone ids (fe80::1%eth0) do not take part in range checks
+  const address = text.split("%")[0];
+  const halves = address.split("::");
+  if (halves.length > 2) return undefined;
+  const groups: bigint[][] = [];
+  for (const half of halves) {
+    const out: bigint[] = [];
+    const parts = half === "" ? [] : half.split(":");
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (i === parts.length - 1 && part.includes(".")) {
+        const v4 = parseIPv4(part);
+        if (v4 === undefined) return undefined;
+        out.push(v4 >> 16n, v4 & 0xffffn);
+      } else if (IPV6_GROUP.test(part)) {
+        out.push(BigInt(`0x${part}`));
+      } else {
+        return undefined;
+      }
+    }
+    groups.push(out);
+  }
+  const [head, tail] = groups;
+  const missing = 8 - head.length - (tail?.length ?? 0);
+  if (tail === undefined ? missing !== 0 : missing < 1) return undefined;
+  const zeros: bigint[] = Array(tail ? missing : 0).fill(0n);
+  const all = [...head, ...zeros, ...(tail ?? [])];
+  return all.reduce((acc, g) => (acc << 16n) | g, 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`)
+ * are returned as IPv4 so they match IPv4 ranges.
+ * @param text - Address in dotted-decimal or RFC 4291 text form
+ * @returns The address, or undefined if it is not valid
+ * @public
+ */
+export function parseIPAddress(text: string): IPAddress | undefined {
+  const v4 = parseIPv4(text);
+  if (v4 !== undefined) return { version: 4, value: v4 };
+  const v6 = parseIPv6(text);
+  if (v6 === undefined) return undefined;
+  if (v6 >> 32n === IPV4_MAPPED_PREFIX >> 32n) {
+    return { version: 4, value: v6 & 0xffffffffn };
+  }
+  return { version: 6, value: v6 };
+}
+
+/**
+ * Parse a CIDR block such as `10.0.0.0/8` or `2001:db8::/32`.
+ * Host bits are ignored; a bare address is a block of one.
+ * @param text - CIDR notation
+ * @returns The block, or undefined if it is not valid
+ * @public
+ */
+export function parseCIDR(text: string): CIDRBlock | undefined {
+  const [address, prefix, ...rest] = text.split("/");
+  if (rest.length > 0) return undefined;
+  const ip = parseIPAddress(address);
+  if (!ip) return undefined;
+  const bits = ip.version === 4 ? 32 : 128;
+  if (prefix !== undefined && !/^\d{1,3}$/.test(prefix)) return undefined;
+  const prefixLength = prefix === undefined ? bits : Number(prefix);
+  if (prefixLength > bits) return undefined;
+  const hostBits = BigInt(bits - prefixLength);
+  return { ...ip, value: (ip.value >> hostBits) << hostBits, prefixLength };
+}
+
+/**
+ * Check whether an address lies in a CIDR block of the same IP version.
+ * @param address - Parsed address
+ * @param block - Parsed CIDR block
+ * @returns true if the address is in the block
+ * @public
+ */
+export function isInCIDR(address: IPAddress, block: CIDRBlock): boolean {
+  if (address.version !== block.version) return false;
+  const bits = block.version === 4 ? 32 : 128;
+  const hostBits = BigInt(bits - block.prefixLength);
+  return address.value >> hostBits === block.value >> hostBits;
+}
+
+/**
+ * Parse the address in the context and the CIDR blocks in the condition.
+ * Throws on invalid input so the evaluator can fail closed and report it.
+ */
+function inAnyRange(
+  key: string,
+  value: unknown,
+  context: Record<string, unknown>
+): boolean {
+  const raw = context[key];
+  const address = typeof raw === "string" ? parseIPAddress(raw) : undefined;
+  if (!address) {
+    throw new Error(`Invalid IP address in "${key}": ${String(raw)}`);
+  }
+  const ranges = Array.isArray(value) ? value : [value];
+  const blocks = ranges.map((range) => {
+    const block = typeof range === "string" ? parseCIDR(range) : undefined;
+    if (!block) throw new Error(`Invalid CIDR block: ${String(range)}`);
+    return block;
+  });
+  return blocks.some((block) => isInCIDR(address, block));
+}
+
+/**
+ * IP range operators. The condition value is a CIDR block or a list of blocks;
+ * the key names the context attribute holding the client address.
+ *
+ * - `ipInRange`: the address is in any of the blocks
+ * - `notIpInRange`: the address is in none of the blocks
+ *
+ * Invalid addresses or blocks make the operators throw, which the default evaluator
+ * reports in `trace.conditionErrors` and treats as a failed (closed) check.
+ *
+ * @example
+ * { operator: 'ipInRange', key: 'sourceIp', value: ['10.0.0.0/8', '2001:db8::/32'] }
+ * @public
+ */
+export const ipConditionOperators: Record<string, ConditionOperator> = {
+  ipInRange: (key, value, context) => inAnyRange(key, value, context),
+  notIpInRange: (key, value, context) => !inAnyRange(key, value, context),
+};
@@ -0,0 +1,278 @@
+/**
+ * Partial evaluation: reduce a user's policies for one action to a residual expression
+ * over the resource, e.g. to translate into a SQL `WHERE` clause or a Mongo filter
+ * @packageDocumentation
+ */
+import type {
+  Condition,
+  ConditionExpression,
+  Policy,
+  Statement,
+  User,
+} from "../types/entities.js";
+import type { CombiningAlgorithm, ConditionOperator } from "./evaluator.js";
+import type { ILogger } from "./logger.js";
+import { evaluateCondition } from "./defaultEvaluator.js";
+import { CURRENT_TIME_KEY } from "./timeOperators.js";
+import {
+  hasVariables,
+  resolveVariable,
+  substitutePatternVariables,
+  type VariableScope,
+} from "./variables.js";
+import { matchesAny } from "../utils/wildcard.js";
+
+/**
+ * Residual of a partial evaluation. `allow-all` and `deny-all` are constants; the other
+ * nodes form a boolean tree over the resource that the caller translates into a query.
+ *
+ * - `resource`: the resource id matches a wildcard pattern (see `matchWildcard`)
+ * - `condition`: a condition that depends on the resource (`resource.*` keys or
+ *   variables), or on the context when none was given; other variables are substituted
+ * @public
+ */
+export type ResidualExpression =
+  | { type: "allow-all" }
+  | { type: "deny-all" }
+  | { type: "resource"; pattern: string }
+  | { type: "condition"; condition: Condition }
+  | { type: "and"; operands: ResidualExpression[] }
+  | { type: "or"; operands: ResidualExpression[] }
+  | { type: "not"; operand: ResidualExpression };
+
+/**
+ * Inputs of {@link partialEvaluate}
+ * @public
+ */
+export interface PartialEvaluationInput {
+  user: User;
+  policies: Policy[];
+  operators: Record<string, ConditionOperator>;
+  logger: ILogger;
+  /** Request context; without it, conditions on the context stay in the residual */
+  context?: Record<string, unknown>;
+  /** Combining algorithm (default 'deny-overrides') */
+  combiningAlgorithm?: CombiningAlgorithm;
+}
+
+const ALLOW_ALL: ResidualExpression = { type: "allow-all" };
+const DENY_ALL: ResidualExpression = { type: "deny-all" };
+
+function and(operands: ResidualExpression[]): ResidualExpression {
+  const out: ResidualExpression[] = [];
+  for (const op of operands) {
+    if (op.type === "deny-all") return DENY_ALL;
+    if (op.type === "allow-all") continue;
+    out.push(...(op.type === "and" ? op.operands : [op]));
+  }
+  if (out.length === 0) return ALLOW_ALL;
+  return out.length === 1 ? out[0] : { type: "and", operands: out };
+}
+
+function or(operands: ResidualExpression[]): ResidualExpression {
+  const out: ResidualExpression[] = [];
+  for (const op of operands) {
+    if (op.type === "allow-all") return ALLOW_ALL;
+    if (op.type === "deny-all") continue;
+    out.push(...(op.type === "or" ? op.operands : [op]));
+  }
+  if (out.length === 0) return DENY_ALL;
+  return out.length === 1 ? out[0] : { type: "or", operands: out };
+}
+
+function not(operand: ResidualExpression): ResidualExpression {
+  if (operand.type === "allow-all") return DENY_ALL;
+  if (operand.type === "deny-all") return ALLOW_ALL;
+  if (operand.type === "not") return operand.operand;
+  return { type: "not", operand };
+}
+
+/** Thrown when an operator fails, so the whole statement fails closed */
+class IndeterminateCondition extends Error {}
+
+const VARIABLE_PATTERN = /\$\{([^}]*)\}/g;
+
+/**
+ * Whether a condition can be evaluated now: it must not depend on the resource,
+ * nor on the context when none was given.
+ */
+function isResolvable(cond: Condition, hasContext: boolean): boolean {
+  const names = [cond.key];
+  const value = JSON.stringify(cond.value ?? null);
+  for (const match of value.matchAll(VARIABLE_PATTERN)) names.push(match[1]);
+  return names.every((name) => {
+    const ns = name.split(".")[0];
+    if (ns === "user" || name === CURRENT_TIME_KEY) return true;
+    return hasContext && ns !== "resource";
+  });
+}
+
+/** Substitute the variables of a residual condition value, except `resource.*` */
+function substituteKnown(value: unknown, scope: VariableScope): unknown {
+  if (Array.isArray(value)) return value.map((v) => substituteKnown(v, scope));
+  if (typeof value !== "string" || !hasVariables(value)) return value;
+  const whole = /^\$\{([^}]*)\}$/.exec(value);
+  if (whole && !whole[1].startsWith("resource.")) {
+    const resolved = resolveVariable(whole[1], scope);
+    return resolved === undefined ? value : resolved;
+  }
+  return value.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (name.startsWith("resource.")) return match;
+    const resolved = resolveVariable(name, scope);
+    return resolved === undefined ? match : String(resolved);
+  });
+}
+
+async function residualConditions(
+  exprs: ConditionExpression[],
+  scope: VariableScope,
+  input: PartialEvaluationInput
+): Promise<ResidualExpression> {
+  const out: ResidualExpression[] = [];
+  for (const expr of exprs) {
+    out.push(await residualCondition(expr, scope, input));
+  }
+  return and(out);
+}
+
+async function residualCondition(
+  expr: ConditionExpression,
+  scope: VariableScope,
+  input: PartialEvaluationInput
+): Promise<ResidualExpression> {
+  if ("anyOf" in expr) {
+    const out: ResidualExpression[] = [];
+    for (const e of expr.anyOf) {
+      out.push(await residualCondition(e, scope, input));
+    }
+    return or(out);
+  }
+  if ("allOf" in expr) return residualConditions(expr.allOf, scope, input);
+  if ("not" in expr) return not(await residualCondition(expr.not, scope, input));
+  if (!isResolvable(expr, input.context !== undefined)) {
+    return {
+      type: "condition",
+      condition: { ...expr, value: substituteKnown(expr.value, scope) },
+    };
+  }
+  const outcome = await evaluateCondition(
+    expr,
+    "condition",
+    input.operators,
+    scope,
+    input.logger
+  );
+  if (outcome.error) throw new IndeterminateCondition(outcome.error.message);
+  return outcome.result ? ALLOW_ALL : DENY_ALL;
+}
+
+/**
+ * Resource patterns of a statement as a residual. A pattern whose variables cannot
+ * be substituted is dropped from an Allow and widened to `*` in a Deny (fail closed).
+ */
+function residualResources(
+  stmt: Statement,
+  scope: VariableScope
+): ResidualExpression {
+  const patterns = (list: unknown[], failClosed: boolean) =>
+    or(
+      list.map((p) => {
+        const concrete = substitutePatternVariables(String(p), scope);
+        if (concrete === undefined) return failClosed ? ALLOW_ALL : DENY_ALL;
+        return concrete === "*"
+          ? ALLOW_ALL
+          : { type: "resource" as const, pattern: concrete };
+      })
+    );
+  if (!stmt.resources && !stmt.notResources) return DENY_ALL;
+  const deny = stmt.effect === "Deny";
+  return and([
+    stmt.resources ? patterns(stmt.resources, deny) : ALLOW_ALL,
+    stmt.notResources ? not(patterns(stmt.notResources, !deny)) : ALLOW_ALL,
+  ]);
+}
+
+/**
+ * Residual under which a statement applies. Operator errors make an Allow never
+ * apply and a Deny apply on its resources, as in the default evaluator.
+ */
+async function residualStatement(
+  stmt: Statement,
+  scope: VariableScope,
+  input: PartialEvaluationInput
+): Promise<ResidualExpression> {
+  const resources = residualResources(stmt, scope);
+  if (resources.type === "deny-all" || !stmt.conditions) return resources;
+  try {
+    const conditions = await residualConditions(stmt.conditions, scope, input);
+    return and([resources, conditions]);
+  } catch (err) {
+    if (!(err instanceof IndeterminateCondition)) throw err;
+    input.logger.warn("Condition operator failed during partial evaluation", {
+      error: err.message,
+    });
+    return stmt.effect === "Deny" ? resources : DENY_ALL;
+  }
+}
+
+/**
+ * Partially evaluate a user's policies for one action. Everything known up front
+ * (action, user, context) is evaluated; what depends on the resource remains.
+ *
+ * @example
+ * const residual = await partialEvaluate('read', { user, policies, operators, logger });
+ * // { type: 'and', operands: [
+ * //   { type: 'resource', pattern: 'doc:*' },
+ * //   { type: 'condition', condition: { operator: 'eq', key: 'resource.ownerId', value: 'u1' } } ] }
+ *
+ * @param action - Requested action
+ * @param input - User, resolved policies and evaluation settings
+ * @returns `allow-all`, `deny-all`, or a boolean tree over the resource
+ * @public
+ */
+export async function partialEvaluate(
+  action: string,
+  input: PartialEvaluationInput
+): Promise<ResidualExpression> {
+  const scope: VariableScope = {
+    user: input.user,
+    context: input.context ?? {},
+  };
+  const applicable: Array<{ effect: string; residual: ResidualExpression }> =
+    [];
+  const policies = [...new Map(input.policies.map((p) => [p.id, p])).values()];
+  for (const policy of policies) {
+    for (const stmt of policy.statements) {
+      if (stmt.effect !== "Allow" && stmt.effect !== "Deny") continue;
+      if (!stmt.actions && !stmt.notActions) continue;
+      if (stmt.actions && !matchesAny(stmt.actions, action)) continue;
+      if (stmt.notActions && matchesAny(stmt.notActions, action)) continue;
+      const residual = await residualStatement(stmt, scope, input);
+      if (residual.type !== "deny-all") {
+        applicable.push({ effect: stmt.effect, residual });
+      }
+    }
+  }
+  const allows = applicable.filter((s) => s.effect === "Allow");
+  const denies = applicable.filter((s) => s.effect === "Deny");
+  switch (input.combiningAlgorithm ?? "deny-overrides") {
+    case "permit-overrides":
+    case "deny-unless-permit":
+      return or(allows.map((s) => s.residual));
+    case "first-applicable":
+      // The first applicable statement decides: fold from the last one
+      return applicable.reduceRight<ResidualExpression>(
+        (rest, s) =>
+          s.effect === "Allow"
+            ? or([s.residual, rest])
+            : and([not(s.residual), rest]),
+        DENY_ALL
+      );
+    case "deny-overrides":
+    default:
+      return and([
+        or(allows.map((s) => s.residual)),
+        not(or(denies.map((s) => s.residual))),
+      ]);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Role hierarchy resolution (roles inheriting from parent roles)
+ * @packageDocumentation
+ */
+import type { Role } from "../types/entities.js";
+import type { ILogger } from "./logger.js";
+import { IAMConfigurationError } from "./errors.js";
+
+/** Default maximum number of inheritance levels above a directly assigned role */
+export const DEFAULT_MAX_ROLE_DEPTH = 10;
+
+/**
+ * Result of resolving the transitive closure of a set of roles
+ * @public
+ */
+export interface ResolvedRoleHierarchy {
+  /** Directly assigned roles followed by every inherited role, without duplicates */
+  roles: Role[];
+  /** Role id -> chain of role ids from the directly assigned role down to that role */
+  paths: Map<string, string[]>;
+  /** Inherited role ids that could not be found in storage */
+  missing: string[];
+  /** Inheritance cycles that were detected (and cut), as chains of role ids */
+  cycles: string[][];
+}
+
+/**
+ * Options for {@link resolveRoleHierarchy}
+ * @public
+ */
+export interface RoleHierarchyOptions {
+  /** Maximum inheritance depth (default {@link DEFAULT_MAX_ROLE_DEPTH}) */
+  maxDepth?: number;
+  logger?: ILogger;
+}
+
+/**
+ * Resolve the transitive closure of roles through `parentRoleIds`.
+ * Parents are fetched level by level, one storage call per level.
+ * Cycles are detected and cut; exceeding the depth limit throws, so that a
+ * truncated hierarchy can never silently drop inherited Deny statements.
+ *
+ * @param directRoles - Roles assigned directly to the principal
+ * @param fetchRoles - Loads roles by id (usually `IAMStorage.getRoles`)
+ * @param options - Depth limit and logger
+ * @returns The resolved hierarchy
+ */
+export async function resolveRoleHierarchy(
+  directRoles: Role[],
+  fetchRoles: (ids: string[]) => Promise<Role[]>,
+  options: RoleHierarchyOptions = {}
+): Promise<ResolvedRoleHierarchy> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_ROLE_DEPTH;
+  const roles: Role[] = [];
+  const paths = new Map<string, string[]>();
+  const missing: string[] = [];
+  const cycles: string[][] = [];
+
+  let frontier: Role[] = [];
+  for (const role of directRoles) {
+    if (!role || paths.has(role.id)) continue;
+    paths.set(role.id, [role.id]);
+    roles.push(role);
+    frontier.push(role);
+  }
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    // parent id -> path of the first child that references it
+    const pending = new Map<string, string[]>();
+    for (const role of frontier) {
+      const path = paths.get(role.id)!;
+      for (const parentId of role.parentRoleIds ?? []) {
+        if (path.includes(parentId)) {
+          const cycle = [...path.slice(path.indexOf(parentId)), parentId];
+          options.logger?.warn("Role inheritance cycle detected", cycle);
+          cycles.push(cycle);
+          continue;
+        }
+        if (paths.has(parentId) || pending.has(parentId)) continue;
+        pending.set(parentId, [...path, parentId]);
+      }
+    }
+    if (pending.size === 0) break;
+    if (depth > maxDepth) {
+      throw new IAMConfigurationError(
+        `Role hierarchy exceeds maximum depth of ${maxDepth} (via ${[
+          ...pending.values(),
+        ][0].join(" -> ")})`
+      );
+    }
+    const fetched = (await fetchRoles([...pending.keys()])).filter(Boolean);
+    const byId = new Map(fetched.map((r) => [r.id, r]));
+    frontier = [];
+    for (const [id, path] of pending) {
+      const role = byId.get(id);
+      if (!role) {
+        options.logger?.warn("Inherited role not found", id);
+        missing.push(id);
+        continue;
+      }
+      paths.set(id, path);
+      roles.push(role);
+      frontier.push(role);
+    }
+  }
+
+  return { roles, paths, missing, cycles };
+}
@@ -0,0 +1,210 @@
+/**
+ * Policy simulation: preview the effect of unsaved policy and role edits
+ * @packageDocumentation
+ */
+import type { User, Role, Policy, Group } from "../types/entities.js";
+import type { DecisionContext } from "../types/decision.js";
+import type { CanParams } from "./iam.js";
+import type { IAMStorage, StorageChangeListener } from "./storage.js";
+import { StorageChangeEmitter } from "./storage.js";
+
+/**
+ * Unsaved edits to simulate. Saved entities replace (or add to) those in storage.
+ * @public
+ */
+export interface ProposedChanges {
+  policies?: Policy[];
+  roles?: Role[];
+  deletedPolicyIds?: string[];
+  deletedRoleIds?: string[];
+}
+
+/**
+ * A recorded or generated request to evaluate with and without the changes
+ * @public
+ */
+export type SimulationRequest<Context = Record<string, unknown>> = Omit<
+  CanParams<string, string, Context>,
+  "cache"
+>;
+
+/**
+ * A request whose decision differs once the changes are applied
+ * @public
+ */
+export interface DecisionFlip<Context = Record<string, unknown>> {
+  request: SimulationRequest<Context>;
+  /** Decision with the current storage */
+  before: DecisionContext<string, string>;
+  /** Decision with the proposed changes */
+  after: DecisionContext<string, string>;
+}
+
+/**
+ * Outcome of a simulation
+ * @public
+ */
+export interface SimulationReport<Context = Record<string, unknown>> {
+  /** Number of requests evaluated */
+  evaluated: number;
+  /** Requests whose decision flipped, in request order */
+  flipped: DecisionFlip<Context>[];
+}
+
+/** Overlaid entities by id; `null` marks a deletion */
+type Overlay<T> = Map<string, T | null>;
+
+/**
+ * Storage that reads through to a base storage, with writes kept in memory on top
+ * of it. The base storage is never written to.
+ *
+ * @example
+ * const overlay = new OverlayStorage(storage);
+ * await overlay.savePolicy(proposedPolicy);
+ * const preview = new IAM({ storage: overlay });
+ * @public
+ */
+export class OverlayStorage implements IAMStorage {
+  private users: Overlay<User> = new Map();
+  private roles: Overlay<Role> = new Map();
+  private policies: Overlay<Policy> = new Map();
+  private groups: Overlay<Group> = new Map();
+  private changes = new StorageChangeEmitter();
+
+  /**
+   * @param base - Storage holding the current entities
+   * @param proposed - Edits to apply on top of it
+   */
+  constructor(private base: IAMStorage, proposed: ProposedChanges = {}) {
+    for (const policy of proposed.policies ?? []) {
+      this.policies.set(policy.id, policy);
+    }
+    for (const role of proposed.roles ?? []) this.roles.set(role.id, role);
+    for (const id of proposed.deletedPolicyIds ?? []) {
+      this.policies.set(id, null);
+    }
+    for (const id of proposed.deletedRoleIds ?? []) this.roles.set(id, null);
+  }
+
+  /**
+   * Register a listener notified after every save/delete on the overlay
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StorageChangeListener): () => void {
+    return this.changes.subscribe(listener);
+  }
+
+  getUser(id: string): Promise<User | undefined> {
+    return this.getOne(this.users, id, (i) => this.base.getUser(i));
+  }
+  getUsers(ids: string[]): Promise<User[]> {
+    return this.getMany(this.users, ids, (i) => this.base.getUsers(i));
+  }
+  getAllUsers(): AsyncIterable<User> {
+    return this.getAll(this.users, this.base.getAllUsers());
+  }
+
+  getRole(id: string): Promise<Role | undefined> {
+    return this.getOne(this.roles, id, (i) => this.base.getRole(i));
+  }
+  getRoles(ids: string[]): Promise<Role[]> {
+    return this.getMany(this.roles, ids, (i) => this.base.getRoles(i));
+  }
+  getAllRoles(): AsyncIterable<Role> {
+    return this.getAll(this.roles, this.base.getAllRoles());
+  }
+
+  getPolicy(id: string): Promise<Policy | undefined> {
+    return this.getOne(this.policies, id, (i) => this.base.getPolicy(i));
+  }
+  getPolicies(ids: string[]): Promise<Policy[]> {
+    return this.getMany(this.policies, ids, (i) => this.base.getPolicies(i));
+  }
+  getAllPolicies(): AsyncIterable<Policy> {
+    return this.getAll(this.policies, this.base.getAllPolicies());
+  }
+
+  getGroup(id: string): Promise<Group | undefined> {
+    return this.getOne(this.groups, id, (i) => this.base.getGroup(i));
+  }
+  getGroups(ids: string[]): Promise<Group[]> {
+    return this.getMany(this.groups, ids, (i) => this.base.getGroups(i));
+  }
+  getAllGroups(): AsyncIterable<Group> {
+    return this.getAll(this.groups, this.base.getAllGroups());
+  }
+  async getGroupsForUser(userId: string): Promise<Group[]> {
+    const base = await this.base.getGroupsForUser(userId);
+    const added = [...this.groups.values()].filter(
+      (g): g is Group => !!g && g.userIds.includes(userId)
+    );
+    return [...base.filter((g) => !this.groups.has(g.id)), ...added];
+  }
+
+  async saveUser(user: User): Promise<void> {
+    this.users.set(user.id, user);
+    this.changes.emit({ type: "user", operation: "save", id: user.id, entity: user });
+  }
+  async saveRole(role: Role): Promise<void> {
+    this.roles.set(role.id, role);
+    this.changes.emit({ type: "role", operation: "save", id: role.id, entity: role });
+  }
+  async savePolicy(policy: Policy): Promise<void> {
+    this.policies.set(policy.id, policy);
+    this.changes.emit({ type: "policy", operation: "save", id: policy.id, entity: policy });
+  }
+  async saveGroup(group: Group): Promise<void> {
+    this.groups.set(group.id, group);
+    this.changes.emit({ type: "group", operation: "save", id: group.id, entity: group });
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    this.users.set(id, null);
+    this.changes.emit({ type: "user", operation: "delete", id });
+  }
+  async deleteRole(id: string): Promise<void> {
+    this.roles.set(id, null);
+    this.changes.emit({ type: "role", operation: "delete", id });
+  }
+  async deletePolicy(id: string): Promise<void> {
+    this.policies.set(id, null);
+    this.changes.emit({ type: "policy", operation: "delete", id });
+  }
+  async deleteGroup(id: string): Promise<void> {
+    this.groups.set(id, null);
+    this.changes.emit({ type: "group", operation: "delete", id });
+  }
+
+  private async getOne<T>(
+    overlay: Overlay<T>,
+    id: string,
+    fromBase: (id: string) => Promise<T | undefined>
+  ): Promise<T | undefined> {
+    return overlay.has(id) ? overlay.get(id) ?? undefined : fromBase(id);
+  }
+
+  private async getMany<T extends { id: string }>(
+    overlay: Overlay<T>,
+    ids: string[],
+    fromBase: (ids: string[]) => Promise<T[]>
+  ): Promise<T[]> {
+    const missing = ids.filter((id) => !overlay.has(id));
+    const base = missing.length > 0 ? await fromBase(missing) : [];
+    const byId = new Map(base.filter(Boolean).map((e) => [e.id, e]));
+    return ids
+      .map((id) => (overlay.has(id) ? overlay.get(id) : byId.get(id)))
+      .filter(Boolean) as T[];
+  }
+
+  private async *getAll<T extends { id: string }>(
+    overlay: Overlay<T>,
+    fromBase: AsyncIterable<T>
+  ): AsyncIterable<T> {
+    for await (const entity of fromBase) {
+      if (!overlay.has(entity.id)) yield entity;
+    }
+    for (const entity of overlay.values()) {
+      if (entity) yield entity;
+    }
+  }
+}
@@ -1,9 +1,9 @@
 /**
  * Storage adapter interface for IAM entities
- * @template User, Role, Policy
+ * @template User, Role, Policy, Group
  * @packageDocumentation
  */
-import type { User, Role, Policy } from "../types/entities.js";
+import type { User, Role, Policy, Group } from "../types/entities.js";
 
 /**
  * Extensible async storage interface for IAM entities.
@@ -22,11 +22,70 @@ export interface IAMStorage {
   getPolicies(ids: string[]): Promise<Policy[]>;
   getAllPolicies(): AsyncIterable<Policy>;
 
+  getGroup(id: string): Promise<Group | undefined>;
+  getGroups(ids: string[]): Promise<Group[]>;
+  getAllGroups(): AsyncIterable<Group>;
+  /** Groups the given user is a member of */
+  getGroupsForUser(userId: string): Promise<Group[]>;
+
   saveUser(user: User): Promise<void>;
   saveRole(role: Role): Promise<void>;
   savePolicy(policy: Policy): Promise<void>;
+  saveGroup(group: Group): Promise<void>;
 
   deleteUser(id: string): Promise<void>;
   deleteRole(id: string): Promise<void>;
   deletePolicy(id: string): Promise<void>;
+  deleteGroup(id: string): Promise<void>;
+
+  /** Optional: notify listeners of writes (see ObservableStorage) */
+  subscribe?(listener: StorageChangeListener): () => void;
+}
+
+/**
+ * Kinds of entities managed by IAMStorage
+ */
+export type StorageEntityType = "user" | "role" | "policy" | "group";
+
+/**
+ * Emitted by storage adapters after an entity is saved or deleted
+ */
+export interface StorageChangeEvent {
+  type: StorageEntityType;
+  operation: "save" | "delete";
+  id: string;
+  /** The saved entity (save operations only) */
+  entity?: User | Role | Policy | Group;
+}
+
+export type StorageChangeListener = (event: StorageChangeEvent) => void;
+
+/**
+ * Optional change notification support for storage adapters.
+ * IAM subscribes to keep its decision cache consistent with storage writes.
+ */
+export interface ObservableStorage {
+  /**
+   * Register a listener for entity changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StorageChangeListener): () => void;
+}
+
+/**
+ * Minimal listener registry used by the bundled adapters to implement ObservableStorage
+ */
+export class StorageChangeEmitter implements ObservableStorage {
+  private listeners = new Set<StorageChangeListener>();
+
+  subscribe(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: StorageChangeEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
 }
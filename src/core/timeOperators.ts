@@ -0,0 +1,172 @@
+/**
+ * Date and time condition operators
+ * @packageDocumentation
+ */
+import type { ConditionOperator } from "./evaluator.js";
+
+/**
+ * Condition key that refers to the current time as reported by the IAM clock.
+ * Any other key is read from the context.
+ * @public
+ */
+export const CURRENT_TIME_KEY = "currentTime";
+
+/**
+ * Source of the current time
+ * @public
+ */
+export type Clock = () => Date;
+
+/**
+ * Value of a `dayOfWeek` condition: days as names (`"mon"`, `"Tuesday"`) or numbers (0 = Sunday)
+ * @public
+ */
+export interface DayOfWeekWindow {
+  days: Array<string | number>;
+  /** IANA time zone, e.g. `Europe/Berlin` (default UTC) */
+  timeZone?: string;
+}
+
+/**
+ * Value of an `hourOfDay` condition: hours `from` (inclusive) to `to` (exclusive), 0-24.
+ * A window with `from` greater than `to` wraps around midnight.
+ * @public
+ */
+export interface HourOfDayWindow {
+  from: number;
+  to: number;
+  /** IANA time zone, e.g. `America/New_York` (default UTC) */
+  timeZone?: string;
+}
+
+const ISO_8601 =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Parse an ISO-8601 date or date-time. Date-times without an offset are read as UTC.
+ * Date instances and epoch milliseconds are accepted as well.
+ * @param value - Value from a condition or the context
+ * @returns The date, or undefined if the value is not a valid date
+ */
+export function parseISODate(value: unknown): Date | undefined {
+  let date: Date | undefined;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === "number") {
+    date = new Date(value);
+  } else if (typeof value === "string") {
+    const match = ISO_8601.exec(value);
+    if (!match) return undefined;
+    const withOffset = value.includes("T") && !match[1] ? `${value}Z` : value;
+    date = new Date(withOffset);
+  }
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Read the weekday (0 = Sunday) and hour of an instant in a time zone.
+ * @returns undefined if the time zone is not a valid IANA zone
+ */
+function zonedParts(
+  date: Date,
+  timeZone = "UTC"
+): { day: number; hour: number } | undefined {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(date);
+    const weekday = parts.find((p) => p.type === "weekday")!.value;
+    const hour = Number(parts.find((p) => p.type === "hour")!.value);
+    return { day: DAY_NAMES.indexOf(weekday.slice(0, 3).toLowerCase()), hour };
+  } catch {
+    return undefined;
+  }
+}
+
+function toDayNumber(day: string | number): number {
+  if (typeof day === "number") return day;
+  return DAY_NAMES.indexOf(day.slice(0, 3).toLowerCase());
+}
+
+/**
+ * Create the date and time operators, reading the current time from a clock.
+ *
+ * - `dateBefore` / `dateAfter`: the instant is strictly before / after the value
+ * - `dateBetween`: the instant is within `[start, end]` (inclusive)
+ * - `dayOfWeek`: the instant falls on one of the days, see {@link DayOfWeekWindow}
+ * - `hourOfDay`: the instant falls within the hours, see {@link HourOfDayWindow}
+ *
+ * The instant is the clock's time for the key {@link CURRENT_TIME_KEY}, otherwise the
+ * context value parsed with {@link parseISODate}. Unparseable dates and invalid windows never match.
+ * The operators are marked non-cacheable, so the decision cache never keeps decisions that used them.
+ *
+ * @example
+ * // Business hours in Berlin
+ * { operator: 'hourOfDay', key: 'currentTime', value: { from: 9, to: 17, timeZone: 'Europe/Berlin' } }
+ *
+ * @param clock - Source of the current time (default: system clock)
+ * @returns Operators keyed by name
+ * @public
+ */
+export function createTimeOperators(
+  clock: Clock = () => new Date()
+): Record<string, ConditionOperator> {
+  const instant = (key: string, context: Record<string, unknown>) =>
+    key === CURRENT_TIME_KEY ? clock() : parseISODate(context[key]);
+  const operators: Record<string, ConditionOperator> = {
+    dateBefore: (key, value, context) => {
+      const at = instant(key, context);
+      const limit = parseISODate(value);
+      return !!at && !!limit && at.getTime() < limit.getTime();
+    },
+    dateAfter: (key, value, context) => {
+      const at = instant(key, context);
+      const limit = parseISODate(value);
+      return !!at && !!limit && at.getTime() > limit.getTime();
+    },
+    dateBetween: (key, value, context) => {
+      if (!Array.isArray(value) || value.length !== 2) return false;
+      const at = instant(key, context);
+      const start = parseISODate(value[0]);
+      const end = parseISODate(value[1]);
+      return (
+        !!at &&
+        !!start &&
+        !!end &&
+        start.getTime() <= at.getTime() &&
+        at.getTime() <= end.getTime()
+      );
+    },
+    dayOfWeek: (key, value, context) => {
+      const window = value as DayOfWeekWindow | undefined;
+      if (!window || !Array.isArray(window.days)) return false;
+      const at = instant(key, context);
+      const parts = at && zonedParts(at, window.timeZone);
+      return !!parts && window.days.map(toDayNumber).includes(parts.day);
+    },
+    hourOfDay: (key, value, context) => {
+      const window = value as HourOfDayWindow | undefined;
+      if (
+        !window ||
+        typeof window.from !== "number" ||
+        typeof window.to !== "number"
+      ) {
+        return false;
+      }
+      const at = instant(key, context);
+      const parts = at && zonedParts(at, window.timeZone);
+      if (!parts) return false;
+      return window.from <= window.to
+        ? window.from <= parts.hour && parts.hour < window.to
+        : parts.hour >= window.from || parts.hour < window.to;
+    },
+  };
+  // Results depend on the clock, so decisions using them must not be cached
+  for (const op of Object.values(operators)) op.cacheable = false;
+  return operators;
+}
@@ -0,0 +1,217 @@
+/**
+ * Policy variables resolved at evaluation time (`${user.id}`, `${context.tenantId}`, ...)
+ * @packageDocumentation
+ */
+import type { User } from "../types/entities.js";
+import {
+  escapeRegExp,
+  matchWildcard,
+  wildcardToRegExpSource,
+} from "../utils/wildcard.js";
+
+/**
+ * Values that policy variables and condition keys can refer to.
+ * `${user.<path>}` reads from the user, `${context.<path>}` from the request context
+ * and `${resource.<path>}` from the requested resource (`resource.id` and its attributes).
+ * @public
+ */
+export interface VariableScope {
+  user: User;
+  context: Record<string, unknown>;
+  resource?: Record<string, unknown>;
+}
+
+/**
+ * Result of substituting the variables in a value
+ * @public
+ */
+export type SubstitutionResult =
+  | { resolved: true; value: unknown }
+  | { resolved: false; variable: string };
+
+const VARIABLE_PATTERN = /\$\{([^}]*)\}/g;
+
+/** Namespaces for condition keys and variables */
+const NAMESPACES = ["user", "context", "resource"];
+
+/** AWS-style escapes for characters that are otherwise special in patterns */
+const ESCAPES: Record<string, string> = { "*": "*", "?": "?", $: "$" };
+
+/**
+ * Check whether a string contains policy variables.
+ * @param text - Pattern or condition value
+ * @returns true if the string contains `${`
+ */
+export function hasVariables(text: string): boolean {
+  return text.includes("${");
+}
+
+/**
+ * Read a dotted path (e.g. `attributes.department`) from an object.
+ * Only own properties are followed, so prototype members are never reachable.
+ * @param source - Object to read from
+ * @param path - Dotted path
+ * @returns The value, or undefined if any segment is missing
+ */
+export function getPath(source: unknown, path: string): unknown {
+  let current = source;
+  for (const segment of path.split(".")) {
+    if (
+      current === null ||
+      typeof current !== "object" ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Resolve a variable name such as `user.id` or `context.tenantId`.
+ * @param name - Variable name without `${` and `}`
+ * @param scope - Values available to variables
+ * @returns The resolved value, or undefined if it does not exist
+ */
+export function resolveVariable(name: string, scope: VariableScope): unknown {
+  if (Object.prototype.hasOwnProperty.call(ESCAPES, name)) return ESCAPES[name];
+  return getPath(
+    { user: scope.user, context: scope.context, resource: scope.resource },
+    name
+  );
+}
+
+/**
+ * Resolve the key of a condition to the value its operator compares.
+ * Namespaced keys (`user.attributes.department`, `context.request.ip`, `resource.id`)
+ * are read from that namespace, so request context cannot shadow user or resource data.
+ * Other keys are read from the context, first as a flat key, then as a dotted path.
+ * @param key - Condition key
+ * @param scope - Values available to conditions
+ * @returns The value, or undefined if it does not exist
+ */
+export function resolveConditionKey(
+  key: string,
+  scope: VariableScope
+): unknown {
+  const dot = key.indexOf(".");
+  if (dot > 0 && NAMESPACES.includes(key.slice(0, dot))) {
+    return resolveVariable(key, scope);
+  }
+  if (Object.prototype.hasOwnProperty.call(scope.context, key)) {
+    return scope.context[key];
+  }
+  return dot > 0 ? getPath(scope.context, key) : undefined;
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+/**
+ * Substitute variables in a condition value.
+ * A string that is exactly one variable keeps the variable's type; variables
+ * embedded in longer strings must resolve to scalars. Arrays are substituted
+ * element by element. Any missing variable makes the whole value unresolved.
+ *
+ * @param value - Condition value from a statement
+ * @param scope - Values available to variables
+ * @returns The substituted value, or the first variable that could not be resolved
+ */
+export function substituteVariables(
+  value: unknown,
+  scope: VariableScope
+): SubstitutionResult {
+  if (Array.isArray(value)) {
+    const out: unknown[] = [];
+    for (const item of value) {
+      const res = substituteVariables(item, scope);
+      if (!res.resolved) return res;
+      out.push(res.value);
+    }
+    return { resolved: true, value: out };
+  }
+  if (typeof value !== "string" || !hasVariables(value)) {
+    return { resolved: true, value };
+  }
+  const whole = /^\$\{([^}]*)\}$/.exec(value);
+  if (whole) {
+    const resolved = resolveVariable(whole[1], scope);
+    return resolved === undefined
+      ? { resolved: false, variable: whole[1] }
+      : { resolved: true, value: resolved };
+  }
+  let missing: string | undefined;
+  const text = value.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const resolved = resolveVariable(name, scope);
+    if (!isScalar(resolved)) {
+      missing ??= name;
+      return "";
+    }
+    return String(resolved);
+  });
+  return missing === undefined
+    ? { resolved: true, value: text }
+    : { resolved: false, variable: missing };
+}
+
+/**
+ * Match a value against a pattern that may contain both wildcards and variables.
+ * Substituted values are matched literally, so a user id of `*` cannot widen
+ * `doc:${user.id}` into `doc:*`. A pattern with a missing variable never matches,
+ * unless the caller counts it as a match to fail closed.
+ *
+ * @param pattern - Resource pattern from a statement
+ * @param value - Requested resource
+ * @param scope - Values available to variables
+ * @param unresolved - Result when a variable is missing (default false)
+ * @returns true if the value matches
+ */
+export function matchPatternWithVariables(
+  pattern: string,
+  value: string,
+  scope: VariableScope,
+  unresolved = false
+): boolean {
+  if (!hasVariables(pattern)) return matchWildcard(pattern, value);
+  let source = "";
+  let last = 0;
+  for (const match of pattern.matchAll(VARIABLE_PATTERN)) {
+    const resolved = resolveVariable(match[1], scope);
+    if (!isScalar(resolved)) return unresolved;
+    source += wildcardToRegExpSource(pattern.slice(last, match.index));
+    source += escapeRegExp(String(resolved));
+    last = match.index! + match[0].length;
+  }
+  source += wildcardToRegExpSource(pattern.slice(last));
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Substitute the variables of a pattern, keeping its wildcards.
+ * @param pattern - Action or resource pattern from a statement
+ * @param scope - Values available to variables
+ * @returns The concrete pattern, or undefined if a variable is missing or its value
+ * contains wildcard characters (which would widen the pattern)
+ */
+export function substitutePatternVariables(
+  pattern: string,
+  scope: VariableScope
+): string | undefined {
+  if (!hasVariables(pattern)) return pattern;
+  let unsafe = false;
+  const text = pattern.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const resolved = resolveVariable(name, scope);
+    if (!isScalar(resolved) || /[*?]/.test(String(resolved))) {
+      unsafe = true;
+      return "";
+    }
+    return String(resolved);
+  });
+  return unsafe ? undefined : text;
+}
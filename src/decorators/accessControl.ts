@@ -1,5 +1,26 @@
 import type { CanParams } from "../core/iam.js";
 import { IAM } from "../core/iam.js";
+import type { DecisionContext } from "../types/decision.js";
+import { AccessDeniedError, IAMConfigurationError } from "../core/errors.js";
+
+/**
+ * Find the IAM instance on the decorated object (`this.iam`) or globally
+ */
+function getIAM(self: any): IAM {
+  const iam: IAM | undefined = self?.iam || (global as any).iam;
+  if (!iam) throw new IAMConfigurationError("IAM instance not found");
+  return iam;
+}
+
+/**
+ * Denial for a check made outside the policy engine, with the reason in the trace
+ */
+function deniedBy(user: any, reason: string): AccessDeniedError {
+  return new AccessDeniedError(`Access denied: ${reason}`, {
+    userId: user?.id,
+    trace: { checkedPolicies: [], reason },
+  });
+}
 
 /**
  * Method decorator to log access attempts, decisions, and context for auditing.
@@ -85,18 +106,28 @@ export function AllowActions(
   return (target, propertyKey, descriptor: PropertyDescriptor) => {
     const original = descriptor.value;
     descriptor.value = async function (this: any, ...args: any[]) {
-      const iam: IAM = this?.iam || (global as any).iam;
-      if (!iam) throw new Error("IAM instance not found");
+      const iam = getIAM(this);
       const resourceList = Array.isArray(resources) ? resources : [resources];
+      let denial: AccessDeniedError | undefined = undefined;
       for (const action of actions) {
         for (const resource of resourceList) {
           const result = await iam.can({ user: this.user, action, resource });
+          if (result.trace.error) throw result.trace.error;
           if (result.decision) {
             return original.apply(this, args);
           }
+          // Report the first denied request
+          denial ??= AccessDeniedError.fromDecision(
+            result,
+            { userId: this.user?.id, action, resource },
+            "Access denied: none of the actions/resources allowed"
+          );
         }
       }
-      throw new Error("Access denied: none of the actions/resources allowed");
+      throw (
+        denial ??
+        deniedBy(this.user, "none of the actions/resources allowed")
+      );
     };
     return descriptor;
   };
@@ -114,14 +145,18 @@ export function DenyActions(
   return (target, propertyKey, descriptor: PropertyDescriptor) => {
     const original = descriptor.value;
     descriptor.value = async function (this: any, ...args: any[]) {
-      const iam: IAM = this?.iam || (global as any).iam;
-      if (!iam) throw new Error("IAM instance not found");
+      const iam = getIAM(this);
       const resourceList = Array.isArray(resources) ? resources : [resources];
       for (const action of actions) {
         for (const resource of resourceList) {
           const result = await iam.can({ user: this.user, action, resource });
+          if (result.trace.error) throw result.trace.error;
           if (result.decision)
-            throw new Error("Access denied: explicitly denied action");
+            throw AccessDeniedError.fromDecision(
+              result,
+              { userId: this.user?.id, action, resource },
+              "Access denied: explicitly denied action"
+            );
         }
       }
       return original.apply(this, args);
@@ -141,7 +176,7 @@ export function AccessCondition(
     const original = descriptor.value;
     descriptor.value = async function (this: any, ...args: any[]) {
       if (!condition(this.user, ...args))
-        throw new Error("Access denied: condition failed");
+        throw deniedBy(this.user, "condition failed");
       return await original.apply(this, args);
     };
     return descriptor;
@@ -149,7 +184,9 @@ export function AccessCondition(
 }
 
 /**
- * Method decorator for access control using IAM.can
+ * Method decorator for access control using IAM.can. Evaluation errors
+ * (`trace.error`) are rethrown rather than reported as a denial, here and in
+ * AllowActions and DenyActions.
  * @param params - Partial CanParams (action/resource may be dynamic)
  */
 export function AccessControl(
@@ -158,26 +195,101 @@ export function AccessControl(
   return (target, propertyKey, descriptor: PropertyDescriptor) => {
     const original = descriptor.value;
     if (typeof original !== "function") {
-      throw new Error("AccessControl can only be applied to methods");
+      throw new IAMConfigurationError(
+        "AccessControl can only be applied to methods"
+      );
     }
     descriptor.value = function (this: any, ...args: any[]) {
-      const iam: IAM = this?.iam || (global as any).iam;
-      if (!iam) throw new Error("IAM instance not found");
+      const iam = getIAM(this);
       const canParams =
         typeof params === "function" ? params.bind(this)(...args) : params;
       const { action = "", resource = "", context = {} } = canParams;
+      const request = {
+        userId: this.user?.id,
+        action: String(action),
+        resource: String(resource),
+      };
       return Promise.resolve(
         iam.can({
           user: this.user,
-          action: String(action),
-          resource: String(resource),
+          action: request.action,
+          resource: request.resource,
           context,
         })
-      ).then((result) => {
-        if (!result.decision) throw new Error("Access denied");
+      ).then((result: DecisionContext<string, string>) => {
+        if (result.trace.error) throw result.trace.error;
+        if (!result.decision) {
+          throw AccessDeniedError.fromDecision(result, request);
+        }
         return original.apply(this, args);
       });
     };
     return descriptor;
   };
 }
+
+/**
+ * Whether a user needs any or all of the listed roles or policies
+ */
+export type MembershipMode = "any" | "all";
+
+/**
+ * Shared implementation of RequireRole and RequirePolicy
+ */
+function requireMembership(
+  kind: "role" | "policy",
+  ids: string | string[],
+  mode: MembershipMode
+): MethodDecorator {
+  const required = Array.isArray(ids) ? ids : [ids];
+  return (target, propertyKey, descriptor: PropertyDescriptor) => {
+    const original = descriptor.value;
+    descriptor.value = async function (this: any, ...args: any[]) {
+      const iam = getIAM(this);
+      if (!this.user) throw deniedBy(this.user, "no user");
+      const memberships = await iam.getMemberships(this.user);
+      const held = new Set(
+        kind === "role" ? memberships.roleIds : memberships.policyIds
+      );
+      const missing = required.filter((id) => !held.has(id));
+      const granted =
+        mode === "all"
+          ? missing.length === 0
+          : missing.length < required.length;
+      if (!granted) {
+        throw deniedBy(
+          this.user,
+          `missing required ${kind} ${missing.join(", ")}`
+        );
+      }
+      return original.apply(this, args);
+    };
+    return descriptor;
+  };
+}
+
+/**
+ * Method decorator to allow access only if the user has the listed roles, assigned
+ * directly, through a group, or inherited through `parentRoleIds`.
+ * @param roleIds - Role id or array of role ids
+ * @param opts - Optional: mode 'any' (default, one role suffices) or 'all'
+ */
+export function RequireRole(
+  roleIds: string | string[],
+  opts?: { mode?: MembershipMode }
+): MethodDecorator {
+  return requireMembership("role", roleIds, opts?.mode ?? "any");
+}
+
+/**
+ * Method decorator to allow access only if the listed policies apply to the user,
+ * attached directly, through a group, or through one of the user's roles.
+ * @param policyIds - Policy id or array of policy ids
+ * @param opts - Optional: mode 'any' (default, one policy suffices) or 'all'
+ */
+export function RequirePolicy(
+  policyIds: string | string[],
+  opts?: { mode?: MembershipMode }
+): MethodDecorator {
+  return requireMembership("policy", policyIds, opts?.mode ?? "any");
+}
@@ -7,11 +7,20 @@ export * from "./adapters/inMemoryAdapter.js";
 export * from "./adapters/jsonFileAdapter.js";
 export * from "./adapters/yamlFileAdapter.js";
 
+export * from "./core/analysis.js";
+export * from "./core/cache.js";
 export * from "./core/defaultEvaluator.js";
+export * from "./core/errors.js";
 export * from "./core/evaluator.js";
 export * from "./core/iam.js";
+export * from "./core/ipOperators.js";
 export * from "./core/logger.js";
+export * from "./core/partialEvaluation.js";
+export * from "./core/roleHierarchy.js";
+export * from "./core/simulator.js";
 export * from "./core/storage.js";
+export * from "./core/timeOperators.js";
+export * from "./core/variables.js";
 
 export * from "./decorators/accessControl.js";
 
@@ -20,3 +29,5 @@ export * from "./types/entities.js";
 
 export * from "./utils/roleAssignment.js";
 export * from "./utils/serialization.js";
+export * from "./utils/validation.js";
+export * from "./utils/wildcard.js";
@@ -0,0 +1,34 @@
+/**
+ * Helpers shared by the framework integrations
+ * @packageDocumentation
+ */
+import type { DecisionContext } from "../types/decision.js";
+
+/**
+ * A static value, or a function deriving it from the framework's request object
+ * @public
+ */
+export type Resolvable<T, Req> = T | ((req: Req) => T | Promise<T>);
+
+/**
+ * Resolve an option that may be a function of the request
+ */
+export async function resolveValue<T, Req>(
+  value: Resolvable<T, Req>,
+  req: Req
+): Promise<T> {
+  return typeof value === "function"
+    ? (value as (req: Req) => T | Promise<T>)(req)
+    : value;
+}
+
+/**
+ * Response body for a request denied by policy, unless the integration is given
+ * another. Evaluation errors never get here, so their messages are not sent to clients.
+ */
+export function forbiddenBody(decision: DecisionContext<string, string>): {
+  error: string;
+  reason?: string;
+} {
+  return { error: "Forbidden", reason: decision.trace.reason };
+}
@@ -0,0 +1,87 @@
+/**
+ * Express middleware that checks each request with IAM.can. Imported from
+ * `@fajarnugraha37/nope-iam/express` so that the main entry does not depend on Express.
+ * @packageDocumentation
+ */
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { IAM } from "../core/iam.js";
+import type { DecisionContext } from "../types/decision.js";
+import type { User } from "../types/entities.js";
+import { forbiddenBody, resolveValue, type Resolvable } from "./common.js";
+
+/**
+ * A static value, or a function deriving it from the request
+ * @public
+ */
+export type RequestValue<T> = Resolvable<T, Request>;
+
+/**
+ * Options of {@link iamMiddleware}
+ * @public
+ */
+export interface IAMMiddlewareOptions {
+  action: RequestValue<string>;
+  resource: RequestValue<string>;
+  /** User to check (default `req.user`, then `res.locals.user`) */
+  user?: RequestValue<User | undefined>;
+  context?: RequestValue<Record<string, unknown> | undefined>;
+  resourceAttributes?: RequestValue<Record<string, unknown> | undefined>;
+  /** Status sent when access is denied (default 403) */
+  deniedStatus?: number;
+  /** Body sent when access is denied (default `{ error: "Forbidden", reason }`) */
+  deniedBody?:
+    | unknown
+    | ((decision: DecisionContext<string, string>, req: Request) => unknown);
+}
+
+/**
+ * Create an Express middleware that lets a request through only if IAM allows it.
+ * The decision is stored on `res.locals.iamDecision` for later handlers; requests
+ * without a user get a 401 and requests denied by policy the configured status and
+ * body. Errors, from the options or from IAM (e.g. a storage outage, see
+ * `trace.error`), go to the Express error handler instead of becoming a denial.
+ * @param iam - IAM instance
+ * @param options - Action, resource, user and context of the check, and the denial response
+ * @returns Express request handler
+ */
+export function iamMiddleware(
+  iam: IAM,
+  options: IAMMiddlewareOptions
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = options.user
+        ? await resolveValue(options.user, req)
+        : (req as any).user ?? res.locals.user;
+      if (!user) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+      const decision = await iam.can({
+        user,
+        action: await resolveValue(options.action, req),
+        resource: await resolveValue(options.resource, req),
+        context: options.context && (await resolveValue(options.context, req)),
+        resourceAttributes:
+          options.resourceAttributes &&
+          (await resolveValue(options.resourceAttributes, req)),
+      });
+      res.locals.iamDecision = decision;
+      if (decision.trace.error) {
+        next(decision.trace.error);
+        return;
+      }
+      if (decision.decision) {
+        next();
+        return;
+      }
+      const body =
+        typeof options.deniedBody === "function"
+          ? options.deniedBody(decision, req)
+          : options.deniedBody ?? forbiddenBody(decision);
+      res.status(options.deniedStatus ?? 403).send(body);
+    } catch (err) {
+      next(err);
+    }
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Fastify plugin that checks routes with IAM.can in a preHandler hook. Imported
+ * from `@fajarnugraha37/nope-iam/fastify` so that the main entry does not depend on
+ * Fastify or augment its types.
+ * @packageDocumentation
+ */
+import type {
+  FastifyInstance,
+  FastifyPluginAsync,
+  FastifyReply,
+  FastifyRequest,
+} from "fastify";
+import type { IAM } from "../core/iam.js";
+import type { DecisionContext } from "../types/decision.js";
+import type { User } from "../types/entities.js";
+import { forbiddenBody, resolveValue, type Resolvable } from "./common.js";
+
+/**
+ * A static value, or a function deriving it from the Fastify request
+ * @public
+ */
+export type FastifyRequestValue<T> = Resolvable<T, FastifyRequest>;
+
+/**
+ * Check of one route, set as `config: { iam: { ... } }` in the route options
+ * @public
+ */
+export interface IAMRouteConfig {
+  action: FastifyRequestValue<string>;
+  resource: FastifyRequestValue<string>;
+  context?: FastifyRequestValue<Record<string, unknown> | undefined>;
+  resourceAttributes?: FastifyRequestValue<
+    Record<string, unknown> | undefined
+  >;
+}
+
+/**
+ * Options of {@link iamFastifyPlugin}
+ * @public
+ */
+export interface IAMFastifyOptions {
+  iam: IAM;
+  /** User to check (default `request.user`) */
+  user?: FastifyRequestValue<User | undefined>;
+  /** Status sent when access is denied (default 403) */
+  deniedStatus?: number;
+  /** Body sent when access is denied (default `{ error: "Forbidden", reason }`) */
+  deniedBody?:
+    | unknown
+    | ((
+        decision: DecisionContext<string, string>,
+        request: FastifyRequest
+      ) => unknown);
+}
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    iam?: IAMRouteConfig;
+  }
+  interface FastifyRequest {
+    /** Decision of the route's IAM check, if the route has one */
+    iamDecision: DecisionContext<string, string> | null;
+  }
+}
+
+/**
+ * Fastify plugin checking every route that has an `iam` entry in its config.
+ * Routes without one are not checked. The decision is stored on
+ * `request.iamDecision`; requests without a user get a 401 and requests denied by
+ * policy the configured status and body. Errors, from the options or from IAM
+ * (see `trace.error`), go to the Fastify error handler instead of becoming a denial.
+ * The plugin is not encapsulated, so it applies to routes registered after it
+ * in the same instance and its children.
+ * @public
+ */
+export const iamFastifyPlugin: FastifyPluginAsync<IAMFastifyOptions> = async (
+  fastify: FastifyInstance,
+  options: IAMFastifyOptions
+) => {
+  fastify.decorateRequest("iamDecision", null);
+  fastify.addHook(
+    "preHandler",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const check = request.routeOptions.config.iam;
+      if (!check) return;
+      const user = options.user
+        ? await resolveValue(options.user, request)
+        : (request as any).user;
+      if (!user) return reply.code(401).send({ error: "Unauthorized" });
+      const decision = await options.iam.can({
+        user,
+        action: await resolveValue(check.action, request),
+        resource: await resolveValue(check.resource, request),
+        context: check.context && (await resolveValue(check.context, request)),
+        resourceAttributes:
+          check.resourceAttributes &&
+          (await resolveValue(check.resourceAttributes, request)),
+      });
+      request.iamDecision = decision;
+      if (decision.trace.error) throw decision.trace.error;
+      if (decision.decision) return;
+      const body =
+        typeof options.deniedBody === "function"
+          ? options.deniedBody(decision, request)
+          : options.deniedBody ?? forbiddenBody(decision);
+      return reply.code(options.deniedStatus ?? 403).send(body);
+    }
+  );
+};
+
+// Same as wrapping with fastify-plugin: share the hook with the parent instance
+(iamFastifyPlugin as any)[Symbol.for("skip-override")] = true;
@@ -0,0 +1,92 @@
+/**
+ * Hono middleware that checks each request with IAM.can. Imported from
+ * `@fajarnugraha37/nope-iam/hono` so that the main entry does not depend on Hono.
+ * @packageDocumentation
+ */
+import type { Context, MiddlewareHandler } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type { IAM } from "../core/iam.js";
+import type { DecisionContext } from "../types/decision.js";
+import type { User } from "../types/entities.js";
+import { forbiddenBody, resolveValue, type Resolvable } from "./common.js";
+
+/**
+ * Context variables read and set by {@link iamHonoMiddleware}
+ * @public
+ */
+export type IAMHonoEnv = {
+  Variables: {
+    user?: User;
+    iamDecision: DecisionContext<string, string>;
+  };
+};
+
+/**
+ * A static value, or a function deriving it from the Hono context
+ * @public
+ */
+export type HonoContextValue<T> = Resolvable<T, Context<IAMHonoEnv>>;
+
+/**
+ * Options of {@link iamHonoMiddleware}
+ * @public
+ */
+export interface IAMHonoOptions {
+  action: HonoContextValue<string>;
+  resource: HonoContextValue<string>;
+  /** User to check (default the `user` context variable) */
+  user?: HonoContextValue<User | undefined>;
+  context?: HonoContextValue<Record<string, unknown> | undefined>;
+  resourceAttributes?: HonoContextValue<Record<string, unknown> | undefined>;
+  /** Status sent when access is denied (default 403) */
+  deniedStatus?: ContentfulStatusCode;
+  /** Body sent when access is denied (default `{ error: "Forbidden", reason }`) */
+  deniedBody?:
+    | unknown
+    | ((
+        decision: DecisionContext<string, string>,
+        c: Context<IAMHonoEnv>
+      ) => unknown);
+}
+
+/**
+ * Create a Hono middleware that lets a request through only if IAM allows it.
+ * The decision is stored in the `iamDecision` context variable; requests without
+ * a user get a 401 and requests denied by policy the configured status and body
+ * (as JSON). Errors, from the options or from IAM (see `trace.error`), go to the
+ * app's `onError` handler instead of becoming a denial.
+ * @param iam - IAM instance
+ * @param options - Action, resource, user and context of the check, and the denial response
+ * @returns Hono middleware
+ */
+export function iamHonoMiddleware(
+  iam: IAM,
+  options: IAMHonoOptions
+): MiddlewareHandler<IAMHonoEnv> {
+  return async (c, next) => {
+    const user = options.user
+      ? await resolveValue(options.user, c)
+      : c.get("user");
+    if (!user) return c.json({ error: "Unauthorized" }, 401);
+    const decision = await iam.can({
+      user,
+      action: await resolveValue(options.action, c),
+      resource: await resolveValue(options.resource, c),
+      context: options.context && (await resolveValue(options.context, c)),
+      resourceAttributes:
+        options.resourceAttributes &&
+        (await resolveValue(options.resourceAttributes, c)),
+    });
+    c.set("iamDecision", decision);
+    if (decision.trace.error) throw decision.trace.error;
+    if (decision.decision) {
+      await next();
+      return;
+    }
+    const body =
+      typeof options.deniedBody === "function"
+        ? options.deniedBody(decision, c)
+        : options.deniedBody ?? forbiddenBody(decision);
+    return c.json(body, options.deniedStatus ?? 403);
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * NestJS module, guard and metadata decorator. Imported from
+ * `@fajarnugraha37/nope-iam/nest` so that the main entry does not depend on NestJS.
+ * @packageDocumentation
+ */
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Module,
+  SetMetadata,
+  UnauthorizedException,
+  type CanActivate,
+  type CustomDecorator,
+  type DynamicModule,
+  type ExecutionContext,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { AccessDeniedError } from "../core/errors.js";
+import { IAM, type IAMOptions } from "../core/iam.js";
+import type { User } from "../types/entities.js";
+import { forbiddenBody, resolveValue, type Resolvable } from "./common.js";
+
+/**
+ * Injection token of the {@link IAMModuleOptions}
+ * @public
+ */
+export const IAM_MODULE_OPTIONS = Symbol("IAM_MODULE_OPTIONS");
+
+/**
+ * Metadata key set by {@link Authorize}
+ * @public
+ */
+export const AUTHORIZE_METADATA = "iam:authorize";
+
+/**
+ * Options of {@link IAMModule.forRoot}: options of the IAM instance to create,
+ * or an existing `instance`, plus how the guard reads the request
+ * @public
+ */
+export interface IAMModuleOptions extends IAMOptions {
+  /** Provide this instance instead of creating one from the options */
+  instance?: IAM;
+  /** User to check (default `user` of the HTTP request) */
+  getUser?: (context: ExecutionContext) => User | undefined;
+  /** Context passed to `IAM.can` (default none) */
+  getContext?: (
+    context: ExecutionContext
+  ) => Record<string, unknown> | undefined;
+}
+
+/**
+ * Action and resource of a handler, set by {@link Authorize}; functions receive
+ * the HTTP request
+ * @public
+ */
+export interface AuthorizeMetadata {
+  action: Resolvable<string, any>;
+  resource: Resolvable<string, any>;
+}
+
+/**
+ * Mark a controller or handler as requiring `action` on `resource`, checked by
+ * {@link IAMGuard}. Handler metadata overrides controller metadata.
+ * @param action - Action, or a function of the request
+ * @param resource - Resource, or a function of the request (e.g. from route params)
+ */
+export function Authorize(
+  action: AuthorizeMetadata["action"],
+  resource: AuthorizeMetadata["resource"]
+): CustomDecorator<string> {
+  return SetMetadata(AUTHORIZE_METADATA, { action, resource });
+}
+
+/**
+ * Guard checking handlers marked with {@link Authorize} through `IAM.can`.
+ * Handlers without the metadata are let through. The decision is stored on
+ * `request.iamDecision`; requests without a user throw `UnauthorizedException`,
+ * denied ones `ForbiddenException` with the trace reason (and an
+ * `AccessDeniedError` as cause). Evaluation errors (see `trace.error`) are
+ * rethrown for Nest's exception filters instead of becoming a denial.
+ * @public
+ */
+@Injectable()
+export class IAMGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(IAM) private readonly iam: IAM,
+    @Inject(IAM_MODULE_OPTIONS) private readonly options: IAMModuleOptions
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<
+      AuthorizeMetadata | undefined
+    >(AUTHORIZE_METADATA, [context.getHandler(), context.getClass()]);
+    if (!required) return true;
+    const request = context.switchToHttp().getRequest();
+    const user = this.options.getUser
+      ? this.options.getUser(context)
+      : request?.user;
+    if (!user) throw new UnauthorizedException();
+    const action = await resolveValue(required.action, request);
+    const resource = await resolveValue(required.resource, request);
+    const decision = await this.iam.can({
+      user,
+      action,
+      resource,
+      context: this.options.getContext?.(context),
+    });
+    if (request) request.iamDecision = decision;
+    if (decision.trace.error) throw decision.trace.error;
+    if (decision.decision) return true;
+    throw new ForbiddenException(forbiddenBody(decision), {
+      cause: AccessDeniedError.fromDecision(decision, {
+        userId: user.id,
+        action,
+        resource,
+      }),
+    });
+  }
+}
+
+/**
+ * Global module providing the `IAM` instance (injectable by its class) and
+ * {@link IAMGuard}
+ * @public
+ */
+@Module({})
+export class IAMModule {
+  /**
+   * Create the module
+   * @param options - IAM options or instance, and how the guard reads requests
+   * @returns Dynamic module to import in the root module
+   */
+  static forRoot(options: IAMModuleOptions = {}): DynamicModule {
+    return {
+      module: IAMModule,
+      global: true,
+      providers: [
+        { provide: IAM_MODULE_OPTIONS, useValue: options },
+        { provide: IAM, useValue: options.instance ?? new IAM(options) },
+        IAMGuard,
+      ],
+      exports: [IAM_MODULE_OPTIONS, IAM, IAMGuard],
+    };
+  }
+}
@@ -4,11 +4,77 @@
  */
 import type { Policy, Statement } from "./entities.js";
 
+/**
+ * One hop in the chain through which a policy reached the user
+ */
+export interface AttachmentStep {
+  type: "role" | "group";
+  id: string;
+}
+
+/**
+ * A statement whose action, resource and conditions matched the request
+ */
+export interface MatchedStatement<Action = string, Resource = string> {
+  policyId: string;
+  statement: Statement<Action, Resource>;
+  /** Groups and roles through which the policy is attached (outermost first); empty if attached directly */
+  via?: AttachmentStep[];
+  /** Conditions that satisfied the statement, e.g. `conditions[0].anyOf[1]` for the second `anyOf` branch */
+  conditionPaths?: string[];
+}
+
+/**
+ * A statement that matched the action and resource but whose conditions did not hold
+ */
+export interface FailedConditionCheck {
+  policyId: string;
+  sid?: string;
+  /** Conditions that rejected the statement, e.g. `conditions[1].not` */
+  conditionPaths: string[];
+}
+
+/**
+ * A condition that could not be evaluated: its operator failed (e.g. on an invalid IP
+ * address) or is unknown, or a policy variable in its value is missing.
+ * The statement's conditions are treated as indeterminate: an Allow does not apply, a Deny does.
+ */
+export interface ConditionError {
+  policyId: string;
+  sid?: string;
+  conditionPath: string;
+  operator: string;
+  message: string;
+}
+
 export interface EvaluationTrace<Action = string, Resource = string> {
   checkedPolicies: string[];
+  /** Policy that decided the outcome, if any */
   matchedPolicy?: Policy<Action, Resource>;
+  /** Statement that decided the outcome, if any */
   matchedStatement?: Statement<Action, Resource>;
+  /** Groups and roles through which the deciding policy is attached; empty if attached directly */
+  matchedVia?: AttachmentStep[];
+  /** Every statement that matched, in evaluation order */
+  matchedStatements?: MatchedStatement<Action, Resource>[];
+  /** Statements rejected by their conditions, with the branch that decided */
+  failedConditions?: FailedConditionCheck[];
+  /** Conditions that could not be evaluated */
+  conditionErrors?: ConditionError[];
+  /** Cache usage, present when a decision cache is configured */
+  cache?: {
+    decision: "hit" | "miss";
+    /** Whether the user's resolved policy set came from the cache (on decision misses) */
+    policySet?: "hit" | "miss";
+  };
+  /** Combining algorithm used to reach the decision */
+  algorithm?: string;
   reason?: string;
+  /**
+   * Error that made the evaluation fail (e.g. a storage outage); the deny is then not
+   * a policy decision and `reason` holds the error message
+   */
+  error?: unknown;
 }
 
 export interface DecisionContext<Action = string, Resource = string> {
@@ -10,12 +10,43 @@ export interface Condition {
   value: unknown;
 }
 
+/** Matches when at least one nested condition matches */
+export interface AnyOfCondition {
+  anyOf: ConditionExpression[];
+}
+
+/** Matches when every nested condition matches */
+export interface AllOfCondition {
+  allOf: ConditionExpression[];
+}
+
+/** Matches when the nested condition does not match */
+export interface NotCondition {
+  not: ConditionExpression;
+}
+
+/** A single condition or a boolean group of conditions */
+export type ConditionExpression =
+  | Condition
+  | AnyOfCondition
+  | AllOfCondition
+  | NotCondition;
+
+/**
+ * A statement applies to an action when the action matches `actions` and does not match
+ * `notActions`; resources work the same way. Use one of each pair, as in AWS IAM.
+ */
 export interface Statement<Action = string, Resource = string> {
   sid?: string;
   effect: Effect;
-  actions: Action[];
-  resources: Resource[];
-  conditions?: Condition[];
+  actions?: Action[];
+  /** Actions the statement does not apply to (every other action matches) */
+  notActions?: Action[];
+  resources?: Resource[];
+  /** Resources the statement does not apply to (every other resource matches) */
+  notResources?: Resource[];
+  /** Conditions that must all match; use `anyOf`/`allOf`/`not` groups for other logic */
+  conditions?: ConditionExpression[];
 }
 
 export interface Policy<Action = string, Resource = string> {
@@ -29,6 +60,8 @@ export interface Role {
   id: string;
   name: string;
   policyIds: string[];
+  /** Roles this role inherits policies from */
+  parentRoleIds?: string[];
   description?: string;
 }
 
@@ -38,3 +71,15 @@ export interface User {
   policyIds: string[];
   attributes?: Record<string, unknown>;
 }
+
+export interface Group {
+  id: string;
+  name: string;
+  /** Users that are members of this group */
+  userIds: string[];
+  /** Roles granted to every member */
+  roleIds: string[];
+  /** Policies attached to every member */
+  policyIds: string[];
+  description?: string;
+}
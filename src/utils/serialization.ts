@@ -1,8 +1,54 @@
 /**
- * Serialization utilities for policies, roles, and users
+ * Serialization utilities for policies, roles, users, and groups
  * @packageDocumentation
  */
-import type { User, Role, Policy } from "../types/entities.js";
+import type { User, Role, Policy, Group } from "../types/entities.js";
+import type { ILogger } from "../core/logger.js";
+import {
+  enforceValidation,
+  validateGroup,
+  validatePolicy,
+  validateRole,
+  validateUser,
+  type ValidationMode,
+  type ValidationOptions,
+  type ValidationResult,
+} from "./validation.js";
+
+/**
+ * Validation applied by the deserializers
+ * @public
+ */
+export interface DeserializeOptions {
+  /** What to do with invalid input (default 'warn') */
+  validation?: ValidationMode;
+  /** Condition operators beyond the built-in ones */
+  operators?: ValidationOptions["operators"];
+  /** Logger for validation warnings; without one, warnings are not reported */
+  logger?: ILogger;
+}
+
+/**
+ * Parse JSON and validate the result according to the options
+ */
+function parseValidated<T>(
+  json: string,
+  validator: (value: unknown, options: ValidationOptions) => ValidationResult,
+  kind: string,
+  options: DeserializeOptions
+): T {
+  const value = JSON.parse(json);
+  const mode = options.validation ?? "warn";
+  if (mode !== "off") {
+    enforceValidation(
+      validator(value, { operators: options.operators }),
+      mode,
+      options.logger,
+      kind
+    );
+  }
+  return value as T;
+}
 
 /**
  * Serialize a policy to JSON
@@ -14,12 +60,17 @@ export function serializePolicy(policy: Policy): string {
 }
 
 /**
- * Deserialize a policy from JSON
+ * Deserialize a policy from JSON, validating it (see {@link validatePolicy})
  * @param json - JSON string
+ * @param options - Validation mode, known operators and logger
  * @returns Policy object
+ * @throws ValidationError in strict mode when the policy is invalid
  */
-export function deserializePolicy(json: string): Policy {
-  return JSON.parse(json) as Policy;
+export function deserializePolicy(
+  json: string,
+  options: DeserializeOptions = {}
+): Policy {
+  return parseValidated(json, validatePolicy, "policy", options);
 }
 
 /**
@@ -32,12 +83,17 @@ export function serializeRole(role: Role): string {
 }
 
 /**
- * Deserialize a role from JSON
+ * Deserialize a role from JSON, validating it (see {@link validateRole})
  * @param json - JSON string
+ * @param options - Validation mode, known operators and logger
  * @returns Role object
+ * @throws ValidationError in strict mode when the role is invalid
  */
-export function deserializeRole(json: string): Role {
-  return JSON.parse(json) as Role;
+export function deserializeRole(
+  json: string,
+  options: DeserializeOptions = {}
+): Role {
+  return parseValidated(json, validateRole, "role", options);
 }
 
 /**
@@ -50,10 +106,38 @@ export function serializeUser(user: User): string {
 }
 
 /**
- * Deserialize a user from JSON
+ * Deserialize a user from JSON, validating it (see {@link validateUser})
  * @param json - JSON string
+ * @param options - Validation mode, known operators and logger
  * @returns User object
+ * @throws ValidationError in strict mode when the user is invalid
+ */
+export function deserializeUser(
+  json: string,
+  options: DeserializeOptions = {}
+): User {
+  return parseValidated(json, validateUser, "user", options);
+}
+
+/**
+ * Serialize a group to JSON
+ * @param group - The group to serialize
+ * @returns JSON string
+ */
+export function serializeGroup(group: Group): string {
+  return JSON.stringify(group);
+}
+
+/**
+ * Deserialize a group from JSON, validating it (see {@link validateGroup})
+ * @param json - JSON string
+ * @param options - Validation mode, known operators and logger
+ * @returns Group object
+ * @throws ValidationError in strict mode when the group is invalid
  */
-export function deserializeUser(json: string): User {
-  return JSON.parse(json) as User;
+export function deserializeGroup(
+  json: string,
+  options: DeserializeOptions = {}
+): Group {
+  return parseValidated(json, validateGroup, "group", options);
 }
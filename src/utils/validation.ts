@@ -0,0 +1,672 @@
+/**
+ * Validation of users, roles, policies and groups read from files or passed to adapters
+ * @packageDocumentation
+ */
+import type { User, Role, Policy, Group } from "../types/entities.js";
+import type { ILogger } from "../core/logger.js";
+import {
+  ConditionOperatorRegistry,
+  defaultConditionOperators,
+  type ConditionOperator,
+} from "../core/evaluator.js";
+import { ipConditionOperators } from "../core/ipOperators.js";
+import { createTimeOperators } from "../core/timeOperators.js";
+
+/**
+ * Kinds of validation issues
+ * - 'invalid-type': a property is missing or has the wrong type
+ * - 'invalid-effect': `effect` is not `Allow` or `Deny` (e.g. misspelled `allow`)
+ * - 'unknown-operator': a condition uses an operator that is not registered
+ * - 'empty-actions': a statement has no actions, so it never applies
+ * - 'dangling-reference': a `policyIds`, `roleIds` or `parentRoleIds` entry does not exist
+ * - 'duplicate-id': two entities of the same kind share an id
+ * @public
+ */
+export type ValidationIssueCode =
+  | "invalid-type"
+  | "invalid-effect"
+  | "unknown-operator"
+  | "empty-actions"
+  | "dangling-reference"
+  | "duplicate-id";
+
+/**
+ * A single problem found by a validator
+ * @public
+ */
+export interface ValidationIssue {
+  /** Location of the problem, e.g. `policies[0].statements[1].effect` (empty for the root) */
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+}
+
+/**
+ * Outcome of a validation
+ * @public
+ */
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+/**
+ * What to do with invalid entities
+ * - 'strict': throw a {@link ValidationError}
+ * - 'warn': log the issues and continue
+ * - 'off': do not validate
+ * @public
+ */
+export type ValidationMode = "strict" | "warn" | "off";
+
+/**
+ * Options for the validators
+ * @public
+ */
+export interface ValidationOptions {
+  /**
+   * Known condition operators, in addition to the built-in ones
+   * (default, IP range and date/time operators)
+   */
+  operators?:
+    | ConditionOperatorRegistry
+    | Record<string, ConditionOperator>
+    | string[];
+  /** Existing ids to check references against; references of an omitted kind are not checked */
+  references?: {
+    policyIds?: Iterable<string>;
+    roleIds?: Iterable<string>;
+  };
+}
+
+/**
+ * Thrown in strict mode when entities are invalid
+ * @public
+ */
+export class ValidationError extends Error {
+  constructor(message: string, public readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * JSON Schema (draft 2020-12) of the file format read by the JSON and YAML adapters,
+ * e.g. for editor completion. The validators check the same shape and, in addition,
+ * operators and references.
+ * @public
+ */
+export const iamJSONSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  properties: {
+    users: { type: "array", items: { $ref: "#/$defs/user" } },
+    roles: { type: "array", items: { $ref: "#/$defs/role" } },
+    policies: { type: "array", items: { $ref: "#/$defs/policy" } },
+    groups: { type: "array", items: { $ref: "#/$defs/group" } },
+  },
+  $defs: {
+    ids: { type: "array", items: { type: "string" } },
+    user: {
+      type: "object",
+      required: ["id", "roleIds", "policyIds"],
+      properties: {
+        id: { type: "string", minLength: 1 },
+        roleIds: { $ref: "#/$defs/ids" },
+        policyIds: { $ref: "#/$defs/ids" },
+        attributes: { type: "object" },
+      },
+    },
+    role: {
+      type: "object",
+      required: ["id", "name", "policyIds"],
+      properties: {
+        id: { type: "string", minLength: 1 },
+        name: { type: "string" },
+        policyIds: { $ref: "#/$defs/ids" },
+        parentRoleIds: { $ref: "#/$defs/ids" },
+        description: { type: "string" },
+      },
+    },
+    group: {
+      type: "object",
+      required: ["id", "name", "userIds", "roleIds", "policyIds"],
+      properties: {
+        id: { type: "string", minLength: 1 },
+        name: { type: "string" },
+        userIds: { $ref: "#/$defs/ids" },
+        roleIds: { $ref: "#/$defs/ids" },
+        policyIds: { $ref: "#/$defs/ids" },
+        description: { type: "string" },
+      },
+    },
+    policy: {
+      type: "object",
+      required: ["id", "name", "statements"],
+      properties: {
+        id: { type: "string", minLength: 1 },
+        name: { type: "string" },
+        description: { type: "string" },
+        statements: { type: "array", items: { $ref: "#/$defs/statement" } },
+      },
+    },
+    statement: {
+      type: "object",
+      required: ["effect"],
+      anyOf: [{ required: ["actions"] }, { required: ["notActions"] }],
+      properties: {
+        sid: { type: "string" },
+        effect: { enum: ["Allow", "Deny"] },
+        actions: { type: "array", items: { type: "string" }, minItems: 1 },
+        notActions: { type: "array", items: { type: "string" }, minItems: 1 },
+        resources: { type: "array", items: { type: "string" } },
+        notResources: { type: "array", items: { type: "string" } },
+        conditions: { type: "array", items: { $ref: "#/$defs/condition" } },
+      },
+    },
+    condition: {
+      oneOf: [
+        {
+          type: "object",
+          required: ["operator", "key", "value"],
+          properties: {
+            operator: { type: "string" },
+            key: { type: "string" },
+          },
+        },
+        {
+          type: "object",
+          required: ["anyOf"],
+          properties: {
+            anyOf: { type: "array", items: { $ref: "#/$defs/condition" } },
+          },
+        },
+        {
+          type: "object",
+          required: ["allOf"],
+          properties: {
+            allOf: { type: "array", items: { $ref: "#/$defs/condition" } },
+          },
+        },
+        {
+          type: "object",
+          required: ["not"],
+          properties: { not: { $ref: "#/$defs/condition" } },
+        },
+      ],
+    },
+  },
+} as const;
+
+/** Collects issues while walking an entity */
+class IssueCollector {
+  issues: ValidationIssue[] = [];
+
+  add(path: string, code: ValidationIssueCode, message: string) {
+    this.issues.push({ path, code, message });
+  }
+
+  result(): ValidationResult {
+    return { valid: this.issues.length === 0, issues: this.issues };
+  }
+}
+
+interface Checker {
+  issues: IssueCollector;
+  operators: Set<string>;
+  policyIds?: Set<string>;
+  roleIds?: Set<string>;
+}
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function createChecker(options: ValidationOptions = {}): Checker {
+  const custom = options.operators;
+  const names = Array.isArray(custom)
+    ? custom
+    : custom instanceof ConditionOperatorRegistry
+    ? custom.names()
+    : Object.keys(custom ?? {});
+  const { policyIds, roleIds } = options.references ?? {};
+  return {
+    issues: new IssueCollector(),
+    operators: new Set([
+      ...Object.keys(defaultConditionOperators),
+      ...Object.keys(ipConditionOperators),
+      ...Object.keys(createTimeOperators()),
+      ...names,
+    ]),
+    policyIds: policyIds && new Set(policyIds),
+    roleIds: roleIds && new Set(roleIds),
+  };
+}
+
+function checkString(
+  c: Checker,
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  required = true
+) {
+  const value = obj[key];
+  if (value === undefined && !required) return;
+  if (typeof value !== "string" || (key === "id" && value === "")) {
+    c.issues.add(
+      join(path, key),
+      "invalid-type",
+      `"${key}" must be a ${key === "id" ? "non-empty " : ""}string`
+    );
+  }
+}
+
+function checkStringArray(
+  c: Checker,
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  required = true
+): string[] | undefined {
+  const value = obj[key];
+  if (value === undefined && !required) return undefined;
+  if (!Array.isArray(value)) {
+    c.issues.add(join(path, key), "invalid-type", `"${key}" must be an array`);
+    return undefined;
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== "string") {
+      c.issues.add(
+        join(join(path, key), i),
+        "invalid-type",
+        `"${key}" entries must be strings`
+      );
+    }
+  });
+  return value.filter((item): item is string => typeof item === "string");
+}
+
+function checkReferences(
+  c: Checker,
+  ids: string[] | undefined,
+  known: Set<string> | undefined,
+  kind: "policy" | "role",
+  path: string
+) {
+  if (!ids || !known) return;
+  ids.forEach((id, i) => {
+    if (!known.has(id)) {
+      c.issues.add(
+        join(path, i),
+        "dangling-reference",
+        `Unknown ${kind} "${id}"`
+      );
+    }
+  });
+}
+
+function checkCondition(c: Checker, expr: unknown, path: string) {
+  if (!isObject(expr)) {
+    c.issues.add(path, "invalid-type", "Condition must be an object");
+    return;
+  }
+  for (const group of ["anyOf", "allOf"] as const) {
+    if (group in expr) {
+      const items = expr[group];
+      if (!Array.isArray(items)) {
+        c.issues.add(
+          join(path, group),
+          "invalid-type",
+          `"${group}" must be an array`
+        );
+      } else {
+        items.forEach((e, i) => checkCondition(c, e, join(join(path, group), i)));
+      }
+      return;
+    }
+  }
+  if ("not" in expr) {
+    checkCondition(c, expr.not, join(path, "not"));
+    return;
+  }
+  checkString(c, expr, "operator", path);
+  checkString(c, expr, "key", path);
+  if (!("value" in expr)) {
+    c.issues.add(join(path, "value"), "invalid-type", `"value" is required`);
+  }
+  const operator = expr.operator;
+  if (typeof operator === "string" && !c.operators.has(operator)) {
+    c.issues.add(
+      join(path, "operator"),
+      "unknown-operator",
+      `Unknown condition operator "${operator}"`
+    );
+  }
+}
+
+function checkStatement(c: Checker, stmt: unknown, path: string) {
+  if (!isObject(stmt)) {
+    c.issues.add(path, "invalid-type", "Statement must be an object");
+    return;
+  }
+  checkString(c, stmt, "sid", path, false);
+  const effect = stmt.effect;
+  if (effect !== "Allow" && effect !== "Deny") {
+    const suggestion =
+      typeof effect === "string" &&
+      ["allow", "deny"].includes(effect.toLowerCase())
+        ? `; did you mean "${effect[0].toUpperCase()}${effect
+            .slice(1)
+            .toLowerCase()}"?`
+        : "";
+    c.issues.add(
+      join(path, "effect"),
+      "invalid-effect",
+      `"effect" must be "Allow" or "Deny", got ${JSON.stringify(effect)}${suggestion}`
+    );
+  }
+  const actions = checkStringArray(c, stmt, "actions", path, false);
+  const notActions = checkStringArray(c, stmt, "notActions", path, false);
+  if (stmt.actions === undefined && stmt.notActions === undefined) {
+    c.issues.add(
+      path,
+      "empty-actions",
+      `Statement has no "actions" or "notActions" and never applies`
+    );
+  } else if (actions?.length === 0 && !notActions?.length) {
+    c.issues.add(
+      join(path, "actions"),
+      "empty-actions",
+      `"actions" is empty; the statement never applies`
+    );
+  } else if (notActions?.length === 0 && stmt.actions === undefined) {
+    c.issues.add(
+      join(path, "notActions"),
+      "empty-actions",
+      `"notActions" is empty; use "actions": ["*"] to match every action`
+    );
+  }
+  checkStringArray(c, stmt, "resources", path, false);
+  checkStringArray(c, stmt, "notResources", path, false);
+  if (stmt.conditions !== undefined) {
+    if (!Array.isArray(stmt.conditions)) {
+      c.issues.add(
+        join(path, "conditions"),
+        "invalid-type",
+        `"conditions" must be an array`
+      );
+    } else {
+      stmt.conditions.forEach((expr, i) =>
+        checkCondition(c, expr, join(join(path, "conditions"), i))
+      );
+    }
+  }
+}
+
+function checkPolicy(c: Checker, policy: unknown, path: string) {
+  if (!isObject(policy)) {
+    c.issues.add(path, "invalid-type", "Policy must be an object");
+    return;
+  }
+  checkString(c, policy, "id", path);
+  checkString(c, policy, "name", path);
+  checkString(c, policy, "description", path, false);
+  if (!Array.isArray(policy.statements)) {
+    c.issues.add(
+      join(path, "statements"),
+      "invalid-type",
+      `"statements" must be an array`
+    );
+    return;
+  }
+  policy.statements.forEach((stmt, i) =>
+    checkStatement(c, stmt, join(join(path, "statements"), i))
+  );
+}
+
+function checkRole(c: Checker, role: unknown, path: string) {
+  if (!isObject(role)) {
+    c.issues.add(path, "invalid-type", "Role must be an object");
+    return;
+  }
+  checkString(c, role, "id", path);
+  checkString(c, role, "name", path);
+  checkString(c, role, "description", path, false);
+  const policyIds = checkStringArray(c, role, "policyIds", path);
+  checkReferences(c, policyIds, c.policyIds, "policy", join(path, "policyIds"));
+  const parents = checkStringArray(c, role, "parentRoleIds", path, false);
+  checkReferences(c, parents, c.roleIds, "role", join(path, "parentRoleIds"));
+}
+
+function checkUser(c: Checker, user: unknown, path: string) {
+  if (!isObject(user)) {
+    c.issues.add(path, "invalid-type", "User must be an object");
+    return;
+  }
+  checkString(c, user, "id", path);
+  const roleIds = checkStringArray(c, user, "roleIds", path);
+  checkReferences(c, roleIds, c.roleIds, "role", join(path, "roleIds"));
+  const policyIds = checkStringArray(c, user, "policyIds", path);
+  checkReferences(c, policyIds, c.policyIds, "policy", join(path, "policyIds"));
+  if (user.attributes !== undefined && !isObject(user.attributes)) {
+    c.issues.add(
+      join(path, "attributes"),
+      "invalid-type",
+      `"attributes" must be an object`
+    );
+  }
+}
+
+function checkGroup(c: Checker, group: unknown, path: string) {
+  if (!isObject(group)) {
+    c.issues.add(path, "invalid-type", "Group must be an object");
+    return;
+  }
+  checkString(c, group, "id", path);
+  checkString(c, group, "name", path);
+  checkString(c, group, "description", path, false);
+  checkStringArray(c, group, "userIds", path);
+  const roleIds = checkStringArray(c, group, "roleIds", path);
+  checkReferences(c, roleIds, c.roleIds, "role", join(path, "roleIds"));
+  const policyIds = checkStringArray(c, group, "policyIds", path);
+  checkReferences(c, policyIds, c.policyIds, "policy", join(path, "policyIds"));
+}
+
+/**
+ * Validate a policy: shape, effects, condition operators and action lists
+ * @param policy - Value to validate, e.g. parsed from JSON
+ * @param options - Known operators
+ * @returns Issues with paths relative to the policy, e.g. `statements[0].effect`
+ * @public
+ */
+export function validatePolicy(
+  policy: unknown,
+  options?: ValidationOptions
+): ValidationResult {
+  const c = createChecker(options);
+  checkPolicy(c, policy, "");
+  return c.issues.result();
+}
+
+/**
+ * Validate a role: shape, and references when `options.references` is given
+ * @param role - Value to validate
+ * @param options - Existing ids for reference checks
+ * @returns Issues with paths relative to the role
+ * @public
+ */
+export function validateRole(
+  role: unknown,
+  options?: ValidationOptions
+): ValidationResult {
+  const c = createChecker(options);
+  checkRole(c, role, "");
+  return c.issues.result();
+}
+
+/**
+ * Validate a user: shape, and references when `options.references` is given
+ * @param user - Value to validate
+ * @param options - Existing ids for reference checks
+ * @returns Issues with paths relative to the user
+ * @public
+ */
+export function validateUser(
+  user: unknown,
+  options?: ValidationOptions
+): ValidationResult {
+  const c = createChecker(options);
+  checkUser(c, user, "");
+  return c.issues.result();
+}
+
+/**
+ * Validate a group: shape, and references when `options.references` is given
+ * @param group - Value to validate
+ * @param options - Existing ids for reference checks
+ * @returns Issues with paths relative to the group
+ * @public
+ */
+export function validateGroup(
+  group: unknown,
+  options?: ValidationOptions
+): ValidationResult {
+  const c = createChecker(options);
+  checkGroup(c, group, "");
+  return c.issues.result();
+}
+
+/**
+ * Validate a complete data set, as stored by the JSON and YAML adapters. References are
+ * checked against the policies and roles in the data set (plus `options.references`).
+ * @param data - Value with optional `users`, `roles`, `policies` and `groups` arrays
+ * @param options - Known operators and additional existing ids
+ * @returns Issues with paths such as `policies[0].statements[1].effect`
+ * @public
+ */
+export function validateEntities(
+  data: unknown,
+  options: ValidationOptions = {}
+): ValidationResult {
+  const c = createChecker(options);
+  if (!isObject(data)) {
+    c.issues.add("", "invalid-type", "Data must be an object");
+    return c.issues.result();
+  }
+  const ids = (key: string) =>
+    Array.isArray(data[key])
+      ? (data[key] as unknown[]).flatMap((e) =>
+          isObject(e) && typeof e.id === "string" ? [e.id] : []
+        )
+      : [];
+  c.policyIds = new Set([
+    ...ids("policies"),
+    ...(options.references?.policyIds ?? []),
+  ]);
+  c.roleIds = new Set([...ids("roles"), ...(options.references?.roleIds ?? [])]);
+  const collections = [
+    ["users", checkUser],
+    ["roles", checkRole],
+    ["policies", checkPolicy],
+    ["groups", checkGroup],
+  ] as const;
+  for (const [key, check] of collections) {
+    const items = data[key];
+    if (items === undefined) continue;
+    if (!Array.isArray(items)) {
+      c.issues.add(key, "invalid-type", `"${key}" must be an array`);
+      continue;
+    }
+    const seen = new Set<string>();
+    items.forEach((item, i) => {
+      check(c, item, join(key, i));
+      const id = isObject(item) ? item.id : undefined;
+      if (typeof id !== "string") return;
+      if (seen.has(id)) {
+        c.issues.add(join(join(key, i), "id"), "duplicate-id", `Duplicate id "${id}"`);
+      }
+      seen.add(id);
+    });
+  }
+  return c.issues.result();
+}
+
+/**
+ * Act on a validation result according to the mode: throw in strict mode, log in warn mode
+ * @param result - Validation result
+ * @param mode - Validation mode
+ * @param logger - Logger for warn mode; without one, warnings are not reported
+ * @param subject - What was validated, for messages (e.g. `policy "p1"`)
+ * @throws ValidationError in strict mode when the result is invalid
+ * @public
+ */
+export function enforceValidation(
+  result: ValidationResult,
+  mode: ValidationMode,
+  logger: ILogger | undefined,
+  subject: string
+): void {
+  if (result.valid || mode === "off") return;
+  if (mode === "strict") {
+    const [first] = result.issues;
+    const where = first.path ? ` at ${first.path}` : "";
+    throw new ValidationError(
+      `Invalid ${subject}: ${first.message}${where}` +
+        (result.issues.length > 1
+          ? ` (and ${result.issues.length - 1} more)`
+          : ""),
+      result.issues
+    );
+  }
+  for (const issue of result.issues) {
+    logger?.warn(`Invalid ${subject}: ${issue.message}`, {
+      path: issue.path,
+      code: issue.code,
+    });
+  }
+}
+
+/**
+ * Settings of a storage adapter's validation
+ * @public
+ */
+export interface AdapterValidationSettings {
+  mode: ValidationMode;
+  operators?: ValidationOptions["operators"];
+  /** Logger for warn mode; without one, warnings are not reported */
+  logger?: ILogger;
+}
+
+/**
+ * Validate an entity before a storage adapter saves it, with its references checked
+ * against the stored ids, and act on the result according to the mode
+ * @param validator - `validatePolicy`, `validateRole`, `validateUser` or `validateGroup`
+ * @param entity - Entity to save
+ * @param kind - Entity kind, for messages (e.g. `policy`)
+ * @param references - Ids of the stored policies and roles
+ * @param settings - Validation mode, known operators and logger
+ * @throws ValidationError in strict mode when the entity is invalid
+ * @public
+ */
+export function validateBeforeSave(
+  validator: (value: unknown, options: ValidationOptions) => ValidationResult,
+  entity: { id: string },
+  kind: string,
+  references: NonNullable<ValidationOptions["references"]>,
+  settings: AdapterValidationSettings
+): void {
+  if (settings.mode === "off") return;
+  const result = validator(entity, {
+    operators: settings.operators,
+    references,
+  });
+  enforceValidation(
+    result,
+    settings.mode,
+    settings.logger,
+    `${kind} "${entity.id}"`
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * Wildcard (glob) matching for statement actions and resources
+ * @packageDocumentation
+ */
+
+/** Compiled patterns, keyed by the raw pattern string */
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Check whether a pattern contains wildcard characters (`*` or `?`).
+ * @param pattern - Action or resource pattern
+ * @returns true if the pattern is a glob
+ */
+export function isWildcardPattern(pattern: string): boolean {
+  return pattern.includes("*") || pattern.includes("?");
+}
+
+/**
+ * Escape a string so it matches literally inside a regular expression.
+ * @param text - Literal text
+ * @returns Regular expression source
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Convert a wildcard pattern to (unanchored) regular expression source.
+ * @param pattern - Wildcard pattern
+ * @returns Regular expression source
+ */
+export function wildcardToRegExpSource(pattern: string): string {
+  return pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return escapeRegExp(ch);
+    })
+    .join("");
+}
+
+function compile(pattern: string): RegExp {
+  let re = patternCache.get(pattern);
+  if (!re) {
+    re = new RegExp(`^${wildcardToRegExpSource(pattern)}$`);
+    patternCache.set(pattern, re);
+  }
+  return re;
+}
+
+/**
+ * Match a value against an AWS IAM-style pattern.
+ * `*` matches any sequence of characters (including none), `?` matches exactly one.
+ * Patterns without wildcards are compared literally.
+ *
+ * @example
+ * matchWildcard("doc:*", "doc:42"); // true
+ * matchWildcard("s3:Get*", "s3:GetObject"); // true
+ * matchWildcard("doc:?", "doc:10"); // false
+ *
+ * @param pattern - Pattern from a statement
+ * @param value - Requested action or resource
+ * @returns true if the value matches the pattern
+ */
+export function matchWildcard(pattern: string, value: string): boolean {
+  if (!isWildcardPattern(pattern)) return pattern === value;
+  return compile(pattern).test(value);
+}
+
+/**
+ * Match a value against a list of patterns.
+ * @param patterns - Patterns from a statement
+ * @param value - Requested action or resource
+ * @returns true if any pattern matches
+ */
+export function matchesAny(patterns: readonly unknown[], value: unknown): boolean {
+  return patterns.some((pattern) =>
+    typeof pattern === "string" && typeof value === "string"
+      ? matchWildcard(pattern, value)
+      : pattern === value
+  );
+}
+
+/**
+ * Check whether every value matched by `specific` is also matched by `general`.
+ * Sound but not complete: `false` may be returned for some exotic pattern pairs.
+ *
+ * @example
+ * patternCovers("doc:*", "doc:1?"); // true
+ * patternCovers("doc:?", "doc:*"); // false
+ *
+ * @param general - Broader pattern
+ * @param specific - Narrower pattern
+ * @returns true if `general` covers `specific`
+ */
+export function patternCovers(general: string, specific: string): boolean {
+  const memo = new Map<string, boolean>();
+  const covers = (i: number, j: number): boolean => {
+    const key = `${i},${j}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    let result: boolean;
+    if (i === general.length) {
+      result = j === specific.length;
+    } else if (general[i] === "*") {
+      // The star matches nothing more, or absorbs the next element of `specific`
+      result = covers(i + 1, j) || (j < specific.length && covers(i, j + 1));
+    } else if (j === specific.length || specific[j] === "*") {
+      result = false;
+    } else if (general[i] === "?" || general[i] === specific[j]) {
+      result = covers(i + 1, j + 1);
+    } else {
+      result = false;
+    }
+    memo.set(key, result);
+    return result;
+  };
+  return covers(0, 0);
+}
+
+/**
+ * Check whether two patterns match at least one common value.
+ * @param a - First pattern
+ * @param b - Second pattern
+ * @returns true if some value matches both
+ */
+export function patternsOverlap(a: string, b: string): boolean {
+  const memo = new Map<string, boolean>();
+  const overlap = (i: number, j: number): boolean => {
+    const key = `${i},${j}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    let result: boolean;
+    if (i < a.length && a[i] === "*") {
+      result = overlap(i + 1, j) || (j < b.length && overlap(i, j + 1));
+    } else if (j < b.length && b[j] === "*") {
+      result = overlap(i, j + 1) || (i < a.length && overlap(i + 1, j));
+    } else if (i === a.length || j === b.length) {
+      result = i === a.length && j === b.length;
+    } else {
+      result =
+        (a[i] === b[j] || a[i] === "?" || b[j] === "?") &&
+        overlap(i + 1, j + 1);
+    }
+    memo.set(key, result);
+    return result;
+  };
+  return overlap(0, 0);
+}
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for permission listings (listAllowedActions / listAllowedResources)
+ */
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Role, Policy } from '../src/types/entities';
+
+describe('IAM permission listings', () => {
+  const policies: Policy[] = [
+    {
+      id: 'docs',
+      name: 'docs',
+      statements: [
+        { sid: 'ReadAll', effect: 'Allow', actions: ['read', 'list'], resources: ['doc:*'] },
+        { sid: 'OwnDrafts', effect: 'Allow', actions: ['edit'], resources: ['draft:${user.id}/*'] },
+      ],
+    },
+    {
+      id: 'secrets',
+      name: 'secrets',
+      statements: [{ sid: 'NoSecrets', effect: 'Deny', actions: ['*'], resources: ['doc:secret*'] }],
+    },
+    {
+      id: 'project',
+      name: 'project',
+      statements: [
+        { sid: 'AllButAdmin', effect: 'Allow', notActions: ['admin:*'], resources: ['project:42'] },
+        {
+          sid: 'NoDeleteOffHours',
+          effect: 'Deny',
+          actions: ['delete'],
+          resources: ['project:*'],
+          conditions: [{ operator: 'eq', key: 'offHours', value: true }],
+        },
+        {
+          sid: 'ApproveIfLead',
+          effect: 'Allow',
+          actions: ['approve'],
+          resources: ['project:42'],
+          conditions: [{ operator: 'eq', key: 'user.attributes.lead', value: true }],
+        },
+      ],
+    },
+  ];
+  const roles: Role[] = [{ id: 'member', name: 'member', policyIds: ['project'] }];
+  const user: User = { id: 'u1', roleIds: ['member'], policyIds: ['docs', 'secrets'], attributes: { lead: false } };
+  const iam = new IAM({
+    storage: new InMemoryAdapter({ users: [user], roles, policies }),
+    config: { logger: new DefaultLogger('none') },
+  });
+
+  describe('listAllowedActions', () => {
+    it('should list granted actions with their attachment path', async () => {
+      const grants = await iam.listAllowedActions(user, 'doc:1');
+      expect(grants.map((g) => g.pattern)).toEqual(['read', 'list']);
+      expect(grants[0]).toMatchObject({ policyId: 'docs', sid: 'ReadAll', via: [], exclusions: [] });
+    });
+
+    it('should drop grants removed by an unconditional Deny', async () => {
+      expect(await iam.listAllowedActions(user, 'doc:secret-plan')).toEqual([]);
+    });
+
+    it('should report notActions grants and overlapping conditional denies', async () => {
+      const grants = await iam.listAllowedActions(user, 'project:42');
+      const all = grants.find((g) => g.sid === 'AllButAdmin')!;
+      expect(all.pattern).toBe('*');
+      expect(all.notPatterns).toEqual(['admin:*']);
+      expect(all.via).toEqual([{ type: 'role', id: 'member' }]);
+      expect(all.exclusions).toEqual([
+        {
+          policyId: 'project',
+          sid: 'NoDeleteOffHours',
+          patterns: ['delete'],
+          notPatterns: undefined,
+          unresolvedConditions: [{ operator: 'eq', key: 'offHours', value: true }],
+        },
+      ]);
+    });
+
+    it('should report conditions as unresolved without a context', async () => {
+      const grants = await iam.listAllowedActions(user, 'project:42');
+      const approve = grants.find((g) => g.sid === 'ApproveIfLead')!;
+      expect(approve.unresolvedConditions).toEqual([{ operator: 'eq', key: 'user.attributes.lead', value: true }]);
+    });
+
+    it('should evaluate conditions when a context is given', async () => {
+      const grants = await iam.listAllowedActions(user, 'project:42', { context: { offHours: true } });
+      expect(grants.map((g) => g.sid)).toEqual(['AllButAdmin']);
+      expect(grants[0].exclusions.map((e) => e.sid)).toEqual(['NoDeleteOffHours']);
+      expect(grants[0].exclusions[0].unresolvedConditions).toBeUndefined();
+      const daytime = await iam.listAllowedActions(user, 'project:42', { context: { offHours: false } });
+      expect(daytime[0].exclusions).toEqual([]);
+    });
+
+    it('should agree with can for resource patterns with missing variables', async () => {
+      const unresolved: Policy = {
+        id: 'unresolved',
+        name: 'unresolved',
+        statements: [
+          { sid: 'ReadButSecret', effect: 'Allow', actions: ['read'], notResources: ['doc:${user.attributes.secret}'] },
+          { sid: 'WriteDocs', effect: 'Allow', actions: ['write'], resources: ['doc:*'] },
+          { sid: 'NoTeamWrites', effect: 'Deny', actions: ['write'], resources: ['doc:${user.attributes.team}'] },
+        ],
+      };
+      const member: User = { id: 'u3', roleIds: [], policyIds: ['unresolved'] };
+      const strict = new IAM({
+        storage: new InMemoryAdapter({ users: [member], roles: [], policies: [unresolved] }),
+        config: { logger: new DefaultLogger('none') },
+      });
+      for (const action of ['read', 'write']) {
+        expect((await strict.can({ user: member, action, resource: 'doc:1' })).decision).toBe(false);
+      }
+      expect(await strict.listAllowedActions(member, 'doc:1')).toEqual([]);
+    });
+  });
+
+  describe('listAllowedResources', () => {
+    it('should list resource patterns with variables substituted', async () => {
+      const grants = await iam.listAllowedResources(user, 'edit');
+      expect(grants.map((g) => g.pattern)).toEqual(['draft:u1/*', 'project:42']);
+    });
+
+    it('should attach overlapping denies as exclusions', async () => {
+      const grants = await iam.listAllowedResources(user, 'read');
+      expect(grants.map((g) => g.pattern)).toEqual(['doc:*', 'project:42']);
+      expect(grants[0].exclusions).toEqual([
+        { policyId: 'secrets', sid: 'NoSecrets', patterns: ['doc:secret*'], notPatterns: undefined, unresolvedConditions: undefined },
+      ]);
+      expect(grants[1].exclusions).toEqual([]);
+    });
+
+    it('should ignore denies under permit-overrides', async () => {
+      const permissive = new IAM({
+        storage: new InMemoryAdapter({ users: [user], roles, policies }),
+        config: { logger: new DefaultLogger('none') },
+        combiningAlgorithm: 'permit-overrides',
+      });
+      const grants = await permissive.listAllowedResources(user, 'read');
+      expect(grants[0].exclusions).toEqual([]);
+    });
+
+    it('should only let earlier denies exclude under first-applicable', async () => {
+      const ordered: Policy = {
+        id: 'ordered',
+        name: 'ordered',
+        statements: [
+          { sid: 'ReadPublic', effect: 'Allow', actions: ['read'], resources: ['file:public'] },
+          { sid: 'NoFiles', effect: 'Deny', actions: ['*'], resources: ['file:*'] },
+          { sid: 'ReadAll', effect: 'Allow', actions: ['read', 'write'], resources: ['file:*'] },
+        ],
+      };
+      const reader: User = { id: 'u2', roleIds: [], policyIds: ['ordered'] };
+      const firstApplicable = new IAM({
+        storage: new InMemoryAdapter({ users: [reader], roles: [], policies: [ordered] }),
+        config: { logger: new DefaultLogger('none') },
+        combiningAlgorithm: 'first-applicable',
+      });
+      expect((await firstApplicable.can({ user: reader, action: 'read', resource: 'file:public' })).decision).toBe(true);
+      const actions = await firstApplicable.listAllowedActions(reader, 'file:public');
+      expect(actions.map((g) => [g.sid, g.pattern])).toEqual([['ReadPublic', 'read']]);
+      const resources = await firstApplicable.listAllowedResources(reader, 'read');
+      expect(resources.map((g) => g.pattern)).toEqual(['file:public']);
+      expect(resources[0].exclusions).toEqual([]);
+    });
+
+    it('should reject when no storage is configured', async () => {
+      const bare = new IAM({ config: { logger: new DefaultLogger('none') } });
+      await expect(bare.listAllowedResources(user, 'read')).rejects.toThrow('No storage adapter configured');
+    });
+  });
+});
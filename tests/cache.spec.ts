@@ -0,0 +1,184 @@
+/**
+ * Unit tests for the decision cache
+ */
+import { DecisionCache } from '../src/core/cache';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Role, Policy, Group } from '../src/types/entities';
+import type { DecisionContext } from '../src/types/decision';
+
+describe('DecisionCache', () => {
+  const decision: DecisionContext = { decision: true, trace: { checkedPolicies: [] }, context: {} };
+
+  it('should evict the least recently used entry', () => {
+    const cache = new DecisionCache({ maxEntries: 2 });
+    cache.setDecision('a', decision, []);
+    cache.setDecision('b', decision, []);
+    cache.getDecision('a');
+    cache.setDecision('c', decision, []);
+    expect(cache.getDecision('a')).toBeDefined();
+    expect(cache.getDecision('b')).toBeUndefined();
+    expect(cache.getDecision('c')).toBeDefined();
+  });
+
+  it('should expire entries after the TTL', () => {
+    let now = 0;
+    const cache = new DecisionCache({ ttlMs: 100, now: () => now });
+    cache.setDecision('a', decision, []);
+    now = 99;
+    expect(cache.getDecision('a')).toBeDefined();
+    now = 100;
+    expect(cache.getDecision('a')).toBeUndefined();
+  });
+
+  it('should invalidate entries depending on a changed entity', () => {
+    const cache = new DecisionCache();
+    cache.setDecision('a', decision, ['role:r1']);
+    cache.setDecision('b', decision, ['role:r2']);
+    cache.invalidate({ type: 'role', operation: 'save', id: 'r1' });
+    expect(cache.getDecision('a')).toBeUndefined();
+    expect(cache.getDecision('b')).toBeDefined();
+  });
+
+  it('should invalidate entries of members when a group is saved', () => {
+    const cache = new DecisionCache();
+    cache.setDecision('a', decision, ['user:u1']);
+    const group: Group = { id: 'g1', name: 'g1', userIds: ['u1'], roleIds: [], policyIds: [] };
+    cache.invalidate({ type: 'group', operation: 'save', id: 'g1', entity: group });
+    expect(cache.getDecision('a')).toBeUndefined();
+  });
+
+  it('should build the same decision key regardless of context key order', () => {
+    const user: User = { id: 'u1', roleIds: [], policyIds: [] };
+    expect(DecisionCache.decisionKey(user, 'read', 'doc:1', { a: 1, b: 2 })).toBe(
+      DecisionCache.decisionKey(user, 'read', 'doc:1', { b: 2, a: 1 })
+    );
+  });
+});
+
+describe('IAM with a decision cache', () => {
+  const logger = new DefaultLogger('none');
+  let storage: InMemoryAdapter;
+  let user: User;
+
+  beforeEach(() => {
+    const policies: Policy[] = [
+      { id: 'pRead', name: 'read', statements: [{ effect: 'Allow', actions: ['read'], resources: ['doc:*'] }] },
+      { id: 'pDeny', name: 'deny', statements: [{ effect: 'Deny', actions: ['read'], resources: ['doc:*'] }] },
+    ];
+    const roles: Role[] = [{ id: 'reader', name: 'reader', policyIds: ['pRead'] }];
+    user = { id: 'u1', roleIds: ['reader'], policyIds: [] };
+    storage = new InMemoryAdapter({ users: [user], roles, policies });
+  });
+
+  it('should report misses and hits in the trace', async () => {
+    const iam = new IAM({ storage, config: { logger }, cache: {} });
+    const first = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(first.trace.cache).toEqual({ decision: 'miss', policySet: 'miss' });
+    const second = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(second.decision).toBe(true);
+    expect(second.trace.cache).toEqual({ decision: 'hit' });
+    const other = await iam.can({ user, action: 'read', resource: 'doc:2' });
+    expect(other.trace.cache).toEqual({ decision: 'miss', policySet: 'hit' });
+  });
+
+  it('should not access storage on a cache hit', async () => {
+    const onStorageAccess = jest.fn();
+    const iam = new IAM({ storage, config: { logger }, cache: {}, hooks: { onStorageAccess } });
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    onStorageAccess.mockClear();
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(onStorageAccess).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate on saveRole', async () => {
+    const iam = new IAM({ storage, config: { logger }, cache: {} });
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(true);
+    await storage.saveRole({ id: 'reader', name: 'reader', policyIds: ['pRead', 'pDeny'] });
+    const result = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(result.decision).toBe(false);
+    expect(result.trace.cache?.decision).toBe('miss');
+  });
+
+  it('should invalidate on savePolicy and deletePolicy', async () => {
+    const iam = new IAM({ storage, config: { logger }, cache: {} });
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    await storage.savePolicy({
+      id: 'pRead',
+      name: 'read',
+      statements: [{ effect: 'Allow', actions: ['write'], resources: ['doc:*'] }],
+    });
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(false);
+    expect((await iam.can({ user, action: 'write', resource: 'doc:1' })).decision).toBe(true);
+    await storage.deletePolicy('pRead');
+    expect((await iam.can({ user, action: 'write', resource: 'doc:1' })).decision).toBe(false);
+  });
+
+  it('should invalidate when a group adds the user', async () => {
+    const iam = new IAM({ storage, config: { logger }, cache: {} });
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(true);
+    await storage.saveGroup({ id: 'g', name: 'g', userIds: ['u1'], roleIds: [], policyIds: ['pDeny'] });
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(false);
+  });
+
+  it('should use a per-request cache when given', async () => {
+    const iam = new IAM({ storage, config: { logger } });
+    const cache = new DecisionCache();
+    await iam.can({ user, action: 'read', resource: 'doc:1', cache });
+    const result = await iam.can({ user, action: 'read', resource: 'doc:1', cache });
+    expect(result.trace.cache?.decision).toBe('hit');
+    const uncached = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(uncached.trace.cache).toBeUndefined();
+  });
+
+  it('should not cache decisions that depend on the clock', async () => {
+    let now = new Date('2025-01-06T16:59:00Z');
+    const hours: Policy = {
+      id: 'pHours',
+      name: 'office hours',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['write'],
+          resources: ['doc:*'],
+          conditions: [{ operator: 'hourOfDay', key: 'currentTime', value: { from: 9, to: 17 } }],
+        },
+      ],
+    };
+    await storage.savePolicy(hours);
+    const worker: User = { id: 'u2', roleIds: [], policyIds: ['pHours'] };
+    const iam = new IAM({ storage, config: { logger }, cache: {}, clock: () => now });
+    expect((await iam.can({ user: worker, action: 'write', resource: 'doc:1' })).decision).toBe(true);
+    now = new Date('2025-01-06T17:30:00Z');
+    const later = await iam.can({ user: worker, action: 'write', resource: 'doc:1' });
+    expect(later.decision).toBe(false);
+    expect(later.trace.cache?.decision).toBe('miss');
+    // Decisions that did not use the clock are still cached
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).trace.cache?.decision).toBe('hit');
+  });
+
+  it('should not cache decisions that used an operator marked non-cacheable', async () => {
+    const lookup = Object.assign(jest.fn(() => true), { cacheable: false });
+    await storage.savePolicy({
+      id: 'pRead',
+      name: 'read',
+      statements: [
+        { effect: 'Allow', actions: ['read'], resources: ['doc:*'], conditions: [{ operator: 'lookup', key: 'k', value: 1 }] },
+      ],
+    });
+    const iam = new IAM({ storage, config: { logger }, cache: {}, operators: { lookup } });
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop everything on clearCache', async () => {
+    const iam = new IAM({ storage, config: { logger }, cache: {} });
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    iam.clearCache();
+    const result = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(result.trace.cache?.decision).toBe('miss');
+  });
+});
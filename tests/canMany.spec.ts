@@ -0,0 +1,122 @@
+/**
+ * Unit tests for batch evaluation (IAM.canMany)
+ */
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Role, Policy } from '../src/types/entities';
+
+describe('IAM.canMany', () => {
+  const policies: Policy[] = [
+    { id: 'pRead', name: 'read', statements: [{ effect: 'Allow', actions: ['read'], resources: ['doc:*'] }] },
+    {
+      id: 'pEdit',
+      name: 'edit',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['edit'],
+          resources: ['doc:*'],
+          conditions: [{ operator: 'eq', key: 'resource.ownerId', value: '${user.id}' }],
+        },
+      ],
+    },
+  ];
+  const roles: Role[] = [{ id: 'reader', name: 'reader', policyIds: ['pRead'] }];
+  const user: User = { id: 'u1', roleIds: ['reader'], policyIds: ['pEdit'] };
+  const storage = new InMemoryAdapter({ users: [user], roles, policies });
+  const logger = new DefaultLogger('none');
+  const items = [
+    { action: 'read', resource: 'doc:1' },
+    { action: 'edit', resource: 'doc:1', resourceAttributes: { ownerId: 'u1' } },
+    { action: 'edit', resource: 'doc:2', resourceAttributes: { ownerId: 'u2' } },
+    { action: 'delete', resource: 'doc:1', context: { reason: 'cleanup' } },
+  ];
+
+  it('should return one decision per item, in order', async () => {
+    const iam = new IAM({ storage, config: { logger } });
+    const results = await iam.canMany(user, items);
+    expect(results.map((r) => r.decision)).toEqual([true, true, false, false]);
+    expect(results[3].context).toEqual({ reason: 'cleanup' });
+  });
+
+  it('should resolve the policy set only once', async () => {
+    const onStorageAccess = jest.fn();
+    const iam = new IAM({ storage, config: { logger }, hooks: { onStorageAccess } });
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    const perCall = onStorageAccess.mock.calls.length;
+    onStorageAccess.mockClear();
+    await iam.canMany(user, items);
+    expect(onStorageAccess).toHaveBeenCalledTimes(perCall);
+  });
+
+  it('should fire decision hooks per item by default', async () => {
+    const onBeforeDecision = jest.fn();
+    const onDecision = jest.fn();
+    const onBeforeBatch = jest.fn();
+    const iam = new IAM({ storage, config: { logger }, hooks: { onBeforeDecision, onDecision, onBeforeBatch } });
+    await iam.canMany(user, items);
+    expect(onBeforeDecision).toHaveBeenCalledTimes(items.length);
+    expect(onBeforeDecision).toHaveBeenCalledWith(expect.objectContaining({ user, action: 'read' }));
+    expect(onDecision).toHaveBeenCalledTimes(items.length);
+    expect(onBeforeBatch).not.toHaveBeenCalled();
+  });
+
+  it('should fire batch hooks once with batchHooks per-batch', async () => {
+    const onDecision = jest.fn();
+    const onBeforeBatch = jest.fn();
+    const onAfterBatch = jest.fn();
+    const iam = new IAM({
+      storage,
+      config: { logger },
+      batchHooks: 'per-batch',
+      hooks: { onDecision, onBeforeBatch, onAfterBatch },
+    });
+    const results = await iam.canMany(user, items);
+    expect(onDecision).not.toHaveBeenCalled();
+    expect(onBeforeBatch).toHaveBeenCalledWith(user, items);
+    expect(onAfterBatch).toHaveBeenCalledWith(results, undefined);
+  });
+
+  it('should let the call override the configured hook mode', async () => {
+    const onDecision = jest.fn();
+    const iam = new IAM({ storage, config: { logger }, hooks: { onDecision } });
+    await iam.canMany(user, items, { batchHooks: 'per-batch' });
+    expect(onDecision).not.toHaveBeenCalled();
+  });
+
+  it('should deny only the failing item when resource attributes cannot be resolved', async () => {
+    const onError = jest.fn();
+    const iam = new IAM({
+      storage,
+      config: { logger },
+      batchHooks: 'per-batch',
+      hooks: { onError },
+      resourceResolver: async (resource) => {
+        if (resource === 'doc:broken') throw new Error('lookup failed');
+        return { ownerId: 'u1' };
+      },
+    });
+    const results = await iam.canMany(user, [
+      { action: 'edit', resource: 'doc:1' },
+      { action: 'edit', resource: 'doc:broken' },
+    ]);
+    expect(results.map((r) => r.decision)).toEqual([true, false]);
+    expect(results[1].trace.reason).toBe('lookup failed');
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deny every item when storage is missing', async () => {
+    const iam = new IAM({ config: { logger } });
+    const results = await iam.canMany(user, items);
+    expect(results.every((r) => !r.decision && r.trace.reason === 'No storage adapter configured')).toBe(true);
+  });
+
+  it('should use the decision cache per item', async () => {
+    const iam = new IAM({ storage, config: { logger }, cache: {} });
+    await iam.can({ user, action: 'read', resource: 'doc:1' });
+    const results = await iam.canMany(user, items);
+    expect(results[0].trace.cache).toEqual({ decision: 'hit' });
+    expect(results[1].trace.cache).toEqual({ decision: 'miss', policySet: 'hit' });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for namespaced and dotted condition keys (ABAC)
+ */
+import { resolveConditionKey } from '../src/core/variables';
+import { defaultPolicyEvaluator } from '../src/core/defaultEvaluator';
+import { defaultConditionOperators } from '../src/core/evaluator';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+const user: User = {
+  id: 'u1',
+  roleIds: [],
+  policyIds: ['abac'],
+  attributes: { department: 'eng', clearance: 3 },
+};
+
+describe('resolveConditionKey', () => {
+  const context = {
+    tenant: 't1',
+    'legacy.key': 'flat',
+    request: { headers: { origin: 'https://app.example.com' } },
+    'user.attributes.department': 'spoofed',
+  };
+  const scope = { user, context, resource: { id: 'doc:1' } };
+
+  it('should read namespaced keys from user, context and resource', () => {
+    expect(resolveConditionKey('user.attributes.department', scope)).toBe('eng');
+    expect(resolveConditionKey('context.request.headers.origin', scope)).toBe('https://app.example.com');
+    expect(resolveConditionKey('resource.id', scope)).toBe('doc:1');
+  });
+
+  it('should read plain keys from the context, flat first then as a path', () => {
+    expect(resolveConditionKey('tenant', scope)).toBe('t1');
+    expect(resolveConditionKey('legacy.key', scope)).toBe('flat');
+    expect(resolveConditionKey('request.headers.origin', scope)).toBe('https://app.example.com');
+  });
+
+  it('should not let context keys shadow user attributes', () => {
+    expect(resolveConditionKey('user.attributes.department', scope)).toBe('eng');
+  });
+
+  it('should return undefined for missing paths', () => {
+    expect(resolveConditionKey('user.attributes.missing', scope)).toBeUndefined();
+    expect(resolveConditionKey('missing', scope)).toBeUndefined();
+    expect(resolveConditionKey('user.constructor', scope)).toBeUndefined();
+  });
+});
+
+describe('defaultPolicyEvaluator with namespaced condition keys', () => {
+  const evaluator = defaultPolicyEvaluator(new DefaultLogger('none'));
+  const policy: Policy = {
+    id: 'abac',
+    name: 'abac',
+    statements: [
+      {
+        effect: 'Allow',
+        actions: ['read'],
+        resources: ['doc:*'],
+        conditions: [
+          { operator: 'eq', key: 'user.attributes.department', value: 'eng' },
+          { operator: 'gte', key: 'user.attributes.clearance', value: 2 },
+          { operator: 'eq', key: 'context.request.headers.origin', value: 'https://app.example.com' },
+        ],
+      },
+    ],
+  };
+  const run = (u: User, context: Record<string, unknown>) =>
+    evaluator(u, 'read', 'doc:1', context, [policy], [], defaultConditionOperators);
+  const context = { request: { headers: { origin: 'https://app.example.com' } } };
+
+  it('should evaluate conditions on user attributes and nested context', async () => {
+    expect((await run(user, context)).decision).toBe(true);
+  });
+
+  it('should deny when a user attribute does not match', async () => {
+    const sales = { ...user, attributes: { department: 'sales', clearance: 3 } };
+    expect((await run(sales, context)).decision).toBe(false);
+  });
+
+  it('should deny users without attributes', async () => {
+    const bare: User = { id: 'u2', roleIds: [], policyIds: [] };
+    expect((await run(bare, context)).decision).toBe(false);
+  });
+
+  it('should compare resource.id with policy variables', async () => {
+    const own: Policy = {
+      id: 'own',
+      name: 'own',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['read'],
+          resources: ['home:*'],
+          conditions: [{ operator: 'eq', key: 'resource.id', value: 'home:${user.id}' }],
+        },
+      ],
+    };
+    const allowed = await evaluator(user, 'read', 'home:u1', {}, [own], [], defaultConditionOperators);
+    expect(allowed.decision).toBe(true);
+    const denied = await evaluator(user, 'read', 'home:u2', {}, [own], [], defaultConditionOperators);
+    expect(denied.decision).toBe(false);
+  });
+});
+
+describe('IAM with user attributes in conditions', () => {
+  const policy: Policy = {
+    id: 'abac',
+    name: 'abac',
+    statements: [
+      {
+        effect: 'Allow',
+        actions: ['read'],
+        resources: ['doc:*'],
+        conditions: [{ operator: 'in', key: 'user.attributes.department', value: ['eng', 'ops'] }],
+      },
+    ],
+  };
+  const iam = new IAM({
+    storage: new InMemoryAdapter({ users: [user], policies: [policy] }),
+    config: { logger: new DefaultLogger('none') },
+  });
+
+  it('should evaluate user attributes through IAM.can', async () => {
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(true);
+    const sales = { ...user, attributes: { department: 'sales' } };
+    expect((await iam.can({ user: sales, action: 'read', resource: 'doc:1' })).decision).toBe(false);
+  });
+});
@@ -5,6 +5,7 @@ import { defaultPolicyEvaluator } from '../src/core/defaultEvaluator';
 import { DefaultLogger } from '../src/core/logger';
 import type { User, Role, Policy } from '../src/types/entities';
 import { defaultConditionOperators } from '../src/core/evaluator';
+import { serializePolicy, deserializePolicy } from '../src/utils/serialization';
 
 describe('defaultPolicyEvaluator', () => {
   const user: User = { id: 'u1', roleIds: ['r1'], policyIds: [] };
@@ -160,4 +161,290 @@ describe('defaultPolicyEvaluator', () => {
     );
     expect(result.decision).toBe(true);
   });
+
+  it('should match wildcard actions and resources', async () => {
+    const globPolicy: Policy = {
+      id: 'p5',
+      name: 'AllowDocReads',
+      statements: [
+        { effect: 'Allow', actions: ['s3:Get*'], resources: ['doc:*'] },
+      ],
+    };
+    const allowed = await evaluator(
+      user,
+      's3:GetObject',
+      'doc:42',
+      {},
+      [globPolicy],
+      [],
+      defaultConditionOperators
+    );
+    expect(allowed.decision).toBe(true);
+    const denied = await evaluator(
+      user,
+      's3:PutObject',
+      'doc:42',
+      {},
+      [globPolicy],
+      [],
+      defaultConditionOperators
+    );
+    expect(denied.decision).toBe(false);
+  });
+
+  describe('combining algorithms', () => {
+    const allowWrite: Policy = {
+      id: 'pa',
+      name: 'AllowWrite',
+      statements: [{ effect: 'Allow', actions: ['write'], resources: ['doc:1'] }],
+    };
+
+    it('should let an explicit deny win regardless of policy order by default', async () => {
+      for (const policies of [[allowWrite, denyPolicy], [denyPolicy, allowWrite]]) {
+        const result = await evaluator(user, 'write', 'doc:1', {}, policies, [], defaultConditionOperators);
+        expect(result.decision).toBe(false);
+        expect(result.trace.reason).toBe('Denied by policy p2');
+        expect(result.trace.algorithm).toBe('deny-overrides');
+        expect(result.trace.matchedPolicy).toBe(denyPolicy);
+      }
+    });
+
+    it('should record every matching statement in the trace', async () => {
+      const result = await evaluator(user, 'write', 'doc:1', {}, [allowWrite, denyPolicy], [], defaultConditionOperators);
+      expect(result.trace.matchedStatements).toEqual([
+        { policyId: 'pa', statement: allowWrite.statements[0] },
+        { policyId: 'p2', statement: denyPolicy.statements[0] },
+      ]);
+    });
+
+    it('should let an allow win with permit-overrides', async () => {
+      const permit = defaultPolicyEvaluator(logger, { combiningAlgorithm: 'permit-overrides' });
+      const result = await permit(user, 'write', 'doc:1', {}, [denyPolicy, allowWrite], [], defaultConditionOperators);
+      expect(result.decision).toBe(true);
+      expect(result.trace.reason).toBe('Allowed by policy pa');
+      const denied = await permit(user, 'write', 'doc:1', {}, [denyPolicy], [], defaultConditionOperators);
+      expect(denied.decision).toBe(false);
+      expect(denied.trace.reason).toBe('Denied by policy p2');
+    });
+
+    it('should use the first matching statement with first-applicable', async () => {
+      const first = defaultPolicyEvaluator(logger, { combiningAlgorithm: 'first-applicable' });
+      const allowed = await first(user, 'write', 'doc:1', {}, [allowWrite, denyPolicy], [], defaultConditionOperators);
+      expect(allowed.decision).toBe(true);
+      const denied = await first(user, 'write', 'doc:1', {}, [denyPolicy, allowWrite], [], defaultConditionOperators);
+      expect(denied.decision).toBe(false);
+      expect(denied.trace.matchedStatements).toHaveLength(2);
+    });
+
+    it('should ignore deny statements with deny-unless-permit', async () => {
+      const dup = defaultPolicyEvaluator(logger, { combiningAlgorithm: 'deny-unless-permit' });
+      const allowed = await dup(user, 'write', 'doc:1', {}, [denyPolicy, allowWrite], [], defaultConditionOperators);
+      expect(allowed.decision).toBe(true);
+      const denied = await dup(user, 'write', 'doc:1', {}, [denyPolicy], [], defaultConditionOperators);
+      expect(denied.decision).toBe(false);
+      expect(denied.trace.reason).toBe('No permitting policy');
+      expect(denied.trace.matchedPolicy).toBeUndefined();
+    });
+  });
+
+  describe('async conditions', () => {
+    const asyncPolicy: Policy = {
+      id: 'p6',
+      name: 'AllowIfMember',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['read'],
+          resources: ['doc:4'],
+          conditions: [
+            { operator: 'memberOf', key: 'org', value: 'acme' },
+            { operator: 'eq', key: 'level', value: 2 },
+          ],
+        },
+      ],
+    };
+
+    it('should await async operators instead of treating promises as truthy', async () => {
+      const memberOf = jest.fn(async () => false);
+      const ops = { ...defaultConditionOperators, memberOf };
+      const result = await evaluator(user, 'read', 'doc:4', { level: 2 }, [asyncPolicy], [], ops);
+      expect(memberOf).toHaveBeenCalled();
+      expect(result.decision).toBe(false);
+    });
+
+    it('should allow when all async conditions resolve to true', async () => {
+      const ops = { ...defaultConditionOperators, memberOf: async () => true };
+      const result = await evaluator(user, 'read', 'doc:4', { level: 2 }, [asyncPolicy], [], ops);
+      expect(result.decision).toBe(true);
+    });
+
+    it('should short-circuit sequential evaluation on the first failing condition', async () => {
+      const eq = jest.fn(() => true);
+      const ops = { ...defaultConditionOperators, memberOf: async () => false, eq };
+      await evaluator(user, 'read', 'doc:4', { level: 2 }, [asyncPolicy], [], ops);
+      expect(eq).not.toHaveBeenCalled();
+    });
+
+    it('should evaluate all conditions at once in parallel mode', async () => {
+      const parallel = defaultPolicyEvaluator(logger, { conditionEvaluation: 'parallel' });
+      const eq = jest.fn(() => true);
+      const ops = { ...defaultConditionOperators, memberOf: async () => false, eq };
+      const result = await parallel(user, 'read', 'doc:4', { level: 2 }, [asyncPolicy], [], ops);
+      expect(eq).toHaveBeenCalled();
+      expect(result.decision).toBe(false);
+    });
+  });
+
+  describe('notActions and notResources', () => {
+    const denyAllButRead: Policy = {
+      id: 'p7',
+      name: 'DenyAllButRead',
+      statements: [{ effect: 'Deny', notActions: ['read'], resources: ['doc:*'] }],
+    };
+    const allowAllButAdmin: Policy = {
+      id: 'p8',
+      name: 'AllowAllButAdmin',
+      statements: [{ effect: 'Allow', notActions: ['admin:*'], resources: ['*'] }],
+    };
+    const allowOutsideSecret: Policy = {
+      id: 'p9',
+      name: 'AllowOutsideSecret',
+      statements: [{ effect: 'Allow', actions: ['read'], notResources: ['secret:*'] }],
+    };
+    const run = (action: string, resource: string, policies: Policy[]) =>
+      evaluator(user, action, resource, {}, policies, [], defaultConditionOperators);
+
+    it('should apply notActions to every action except the listed ones', async () => {
+      expect((await run('write', 'doc:1', [allowAllButAdmin, denyAllButRead])).decision).toBe(false);
+      expect((await run('read', 'doc:1', [allowAllButAdmin, denyAllButRead])).decision).toBe(true);
+    });
+
+    it('should support wildcards in notActions', async () => {
+      expect((await run('admin:delete', 'doc:1', [allowAllButAdmin])).decision).toBe(false);
+      expect((await run('write', 'doc:1', [allowAllButAdmin])).decision).toBe(true);
+    });
+
+    it('should apply notResources to every resource except the listed ones', async () => {
+      expect((await run('read', 'doc:1', [allowOutsideSecret])).decision).toBe(true);
+      expect((await run('read', 'secret:1', [allowOutsideSecret])).decision).toBe(false);
+    });
+
+    it('should resolve policy variables in notResources', async () => {
+      const notOwn: Policy = {
+        id: 'p10',
+        name: 'DenyOthers',
+        statements: [{ effect: 'Deny', actions: ['write'], notResources: ['home:${user.id}/*'] }],
+      };
+      expect((await run('write', 'home:u2/a', [allowAllButAdmin, notOwn])).decision).toBe(false);
+      expect((await run('write', 'home:u1/a', [allowAllButAdmin, notOwn])).decision).toBe(true);
+    });
+
+    it('should not match statements without actions or notActions', async () => {
+      const empty: Policy = { id: 'p11', name: 'Empty', statements: [{ effect: 'Allow', resources: ['*'] }] };
+      expect((await run('read', 'doc:1', [empty])).decision).toBe(false);
+    });
+
+    it('should round-trip through policy serialization', () => {
+      expect(deserializePolicy(serializePolicy(denyAllButRead))).toEqual(denyAllButRead);
+    });
+  });
+
+  describe('nested conditions', () => {
+    const engOrAdmin: Policy = {
+      id: 'p12',
+      name: 'EngOrAdmin',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['read'],
+          resources: ['doc:*'],
+          conditions: [
+            {
+              anyOf: [
+                { operator: 'eq', key: 'department', value: 'eng' },
+                { operator: 'eq', key: 'role', value: 'admin' },
+              ],
+            },
+            { not: { operator: 'eq', key: 'suspended', value: true } },
+          ],
+        },
+      ],
+    };
+    const run = (context: Record<string, unknown>, ops = defaultConditionOperators) =>
+      evaluator(user, 'read', 'doc:1', context, [engOrAdmin], [], ops);
+
+    it('should allow when any branch of anyOf matches', async () => {
+      const result = await run({ department: 'sales', role: 'admin' });
+      expect(result.decision).toBe(true);
+      expect(result.trace.matchedStatements?.[0].conditionPaths).toEqual([
+        'conditions[0].anyOf[1]',
+        'conditions[1].not',
+      ]);
+    });
+
+    it('should deny when no branch of anyOf matches and report every branch', async () => {
+      const result = await run({ department: 'sales', role: 'user' });
+      expect(result.decision).toBe(false);
+      expect(result.trace.failedConditions).toEqual([
+        { policyId: 'p12', sid: undefined, conditionPaths: ['conditions[0].anyOf[0]', 'conditions[0].anyOf[1]'] },
+      ]);
+    });
+
+    it('should negate not groups', async () => {
+      const result = await run({ department: 'eng', suspended: true });
+      expect(result.decision).toBe(false);
+      expect(result.trace.failedConditions?.[0].conditionPaths).toEqual(['conditions[1].not']);
+    });
+
+    it('should short-circuit anyOf on the first matching branch', async () => {
+      const eq = jest.fn((key: string, value: unknown, ctx: Record<string, unknown>) => ctx[key] === value);
+      await run({ department: 'eng' }, { ...defaultConditionOperators, eq });
+      expect(eq.mock.calls.map((c) => c[0])).toEqual(['department', 'suspended']);
+    });
+
+    it('should evaluate allOf groups inside anyOf', async () => {
+      const nested: Policy = {
+        id: 'p13',
+        name: 'Nested',
+        statements: [
+          {
+            effect: 'Allow',
+            actions: ['read'],
+            resources: ['doc:*'],
+            conditions: [
+              {
+                anyOf: [
+                  { operator: 'eq', key: 'owner', value: true },
+                  {
+                    allOf: [
+                      { operator: 'eq', key: 'department', value: 'eng' },
+                      { operator: 'eq', key: 'level', value: 2 },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+      const allowed = await evaluator(user, 'read', 'doc:1', { department: 'eng', level: 2 }, [nested], [], defaultConditionOperators);
+      expect(allowed.decision).toBe(true);
+      expect(allowed.trace.matchedStatements?.[0].conditionPaths).toEqual([
+        'conditions[0].anyOf[1].allOf[0]',
+        'conditions[0].anyOf[1].allOf[1]',
+      ]);
+      const denied = await evaluator(user, 'read', 'doc:1', { department: 'eng', level: 1 }, [nested], [], defaultConditionOperators);
+      expect(denied.decision).toBe(false);
+    });
+
+    it('should report the same deciding branch in parallel mode', async () => {
+      const parallel = defaultPolicyEvaluator(logger, { conditionEvaluation: 'parallel' });
+      const result = await parallel(user, 'read', 'doc:1', { role: 'admin' }, [engOrAdmin], [], defaultConditionOperators);
+      expect(result.decision).toBe(true);
+      expect(result.trace.matchedStatements?.[0].conditionPaths).toEqual([
+        'conditions[0].anyOf[1]',
+        'conditions[1].not',
+      ]);
+    });
+  });
 });
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for AccessDeniedError and IAMConfigurationError
+ */
+import {
+  AccessControl,
+  AllowActions,
+  DenyActions,
+  AccessCondition,
+  RequireRole,
+} from '../src/decorators/accessControl';
+import { AccessDeniedError, IAMConfigurationError } from '../src/core/errors';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+describe('Typed errors', () => {
+  const user: User = { id: 'u1', roleIds: [], policyIds: ['p1'] };
+  const policy: Policy = {
+    id: 'p1',
+    name: 'docs',
+    statements: [
+      { sid: 'Read', effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+      { sid: 'NoSecrets', effect: 'Deny', actions: ['*'], resources: ['doc:secret'] },
+    ],
+  };
+  const iam = new IAM({
+    storage: new InMemoryAdapter({ users: [user], roles: [], policies: [policy] }),
+    config: { logger: new DefaultLogger('none') },
+  });
+
+  async function rejection(promise: Promise<unknown>): Promise<any> {
+    try {
+      await promise;
+    } catch (err) {
+      return err;
+    }
+    throw new Error('Expected a rejection');
+  }
+
+  class Service {
+    iam = iam;
+    user = user;
+
+    // @ts-expect-error
+    @AccessControl({ action: 'read', resource: 'doc:secret' })
+    async readSecret(): Promise<any> { return 'secret'; }
+
+    // @ts-expect-error
+    @AllowActions(['write', 'delete'], ['doc:1'])
+    async change(): Promise<any> { return 'changed'; }
+
+    // @ts-expect-error
+    @DenyActions(['read'], ['doc:1'])
+    async onlyForStrangers(): Promise<any> { return 'ok'; }
+
+    // @ts-expect-error
+    @AccessCondition(() => false)
+    async never(): Promise<any> { return 'never'; }
+
+    // @ts-expect-error
+    @RequireRole('admin')
+    async admin(): Promise<any> { return 'admin'; }
+  }
+
+  it('should carry user, action, resource and trace for policy denials', async () => {
+    const err = await rejection(new Service().readSecret());
+    expect(err).toBeInstanceOf(AccessDeniedError);
+    expect(err.name).toBe('AccessDeniedError');
+    expect(err.message).toBe('Access denied');
+    expect(err).toMatchObject({ userId: 'u1', action: 'read', resource: 'doc:secret' });
+    expect(err.trace.matchedStatement.sid).toBe('NoSecrets');
+  });
+
+  it('should report the first denied request of AllowActions', async () => {
+    const err = await rejection(new Service().change());
+    expect(err).toBeInstanceOf(AccessDeniedError);
+    expect(err).toMatchObject({ userId: 'u1', action: 'write', resource: 'doc:1' });
+    expect(err.trace.checkedPolicies).toEqual(['p1']);
+  });
+
+  it('should carry the allowing trace for DenyActions', async () => {
+    const err = await rejection(new Service().onlyForStrangers());
+    expect(err).toBeInstanceOf(AccessDeniedError);
+    expect(err.message).toBe('Access denied: explicitly denied action');
+    expect(err.trace.matchedStatement.sid).toBe('Read');
+  });
+
+  it('should put the reason of checks outside the engine in the trace', async () => {
+    const condition = await rejection(new Service().never());
+    expect(condition).toBeInstanceOf(AccessDeniedError);
+    expect(condition.trace).toEqual({ checkedPolicies: [], reason: 'condition failed' });
+    const role = await rejection(new Service().admin());
+    expect(role).toBeInstanceOf(AccessDeniedError);
+    expect(role.userId).toBe('u1');
+    expect(role.trace.reason).toBe('missing required role admin');
+  });
+
+  it('should throw IAMConfigurationError when the IAM instance is missing', async () => {
+    class Orphan {
+      user = user;
+      // @ts-expect-error
+      @AllowActions(['read'], 'doc:1')
+      async read(): Promise<any> { return 'read'; }
+    }
+    const old = (global as any).iam;
+    delete (global as any).iam;
+    const err = await rejection(new Orphan().read());
+    if (old) (global as any).iam = old;
+    expect(err).toBeInstanceOf(IAMConfigurationError);
+    expect(err.message).toBe('IAM instance not found');
+    expect(err).not.toBeInstanceOf(AccessDeniedError);
+  });
+
+  it('should use IAMConfigurationError when no storage adapter is configured', async () => {
+    const onError = jest.fn();
+    const bare = new IAM({ config: { logger: new DefaultLogger('none') }, hooks: { onError } });
+    const result = await bare.can({ user, action: 'read', resource: 'doc:1' });
+    expect(result.decision).toBe(false);
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(IAMConfigurationError);
+    await expect(bare.getMemberships(user)).rejects.toBeInstanceOf(IAMConfigurationError);
+    await expect(bare.listAllowedActions(user, 'doc:1')).rejects.toBeInstanceOf(IAMConfigurationError);
+  });
+
+  it('should surface a missing storage adapter from the decorators as IAMConfigurationError', async () => {
+    class Unconfigured {
+      iam = new IAM({ config: { logger: new DefaultLogger('none') } });
+      user = user;
+      // @ts-expect-error
+      @AccessControl({ action: 'read', resource: 'doc:1' })
+      async read(): Promise<any> { return 'read'; }
+    }
+    const err = await rejection(new Unconfigured().read());
+    expect(err).toBeInstanceOf(IAMConfigurationError);
+    expect(err.message).toBe('No storage adapter configured');
+  });
+
+  it('should rethrow storage outages from the decorators instead of denying or running', async () => {
+    const storage = new InMemoryAdapter({ users: [user], roles: [], policies: [policy] });
+    jest.spyOn(storage, 'getPolicies').mockRejectedValue(new Error('db down'));
+    const ran = jest.fn();
+    class Outage {
+      iam = new IAM({ storage, config: { logger: new DefaultLogger('none') } });
+      user = user;
+      // @ts-expect-error
+      @AccessControl({ action: 'read', resource: 'doc:1' })
+      async read(): Promise<any> { return ran('read'); }
+      // @ts-expect-error
+      @AllowActions(['read'], 'doc:1')
+      async anyRead(): Promise<any> { return ran('anyRead'); }
+      // @ts-expect-error
+      @DenyActions(['write'], 'doc:1')
+      async notWriters(): Promise<any> { return ran('notWriters'); }
+    }
+    const service = new Outage();
+    for (const call of [service.read(), service.anyRead(), service.notWriters()]) {
+      const err = await rejection(call);
+      expect(err).not.toBeInstanceOf(AccessDeniedError);
+      expect(err.message).toBe('db down');
+    }
+    expect(ran).not.toHaveBeenCalled();
+  });
+
+  it('should use IAMConfigurationError for a too deep role hierarchy', async () => {
+    const deep = new IAM({
+      storage: new InMemoryAdapter({
+        roles: [
+          { id: 'a', name: 'a', policyIds: [], parentRoleIds: ['b'] },
+          { id: 'b', name: 'b', policyIds: [], parentRoleIds: ['c'] },
+          { id: 'c', name: 'c', policyIds: [] },
+        ],
+      }),
+      config: { logger: new DefaultLogger('none') },
+      maxRoleDepth: 1,
+    });
+    const member: User = { id: 'u2', roleIds: ['a'], policyIds: [] };
+    await expect(deep.getMemberships(member)).rejects.toBeInstanceOf(IAMConfigurationError);
+    await expect(deep.listAllowedActions(member, 'doc:1')).rejects.toThrow(/maximum depth of 1/);
+  });
+
+  it('should use IAMConfigurationError when AccessControl decorates a non-method', () => {
+    expect(() => AccessControl({ action: 'read', resource: 'doc:1' })({}, 'foo', {})).toThrow(IAMConfigurationError);
+  });
+
+  it('should build a denial from a decision', async () => {
+    const decision = await iam.can({ user, action: 'delete', resource: 'doc:1' });
+    const err = AccessDeniedError.fromDecision(decision, { userId: user.id, action: 'delete', resource: 'doc:1' });
+    expect(err).toBeInstanceOf(Error);
+    expect(err.trace).toBe(decision.trace);
+    expect(err.message).toBe('Access denied');
+  });
+});
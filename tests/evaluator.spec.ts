@@ -16,6 +16,14 @@ describe('ConditionOperatorRegistry', () => {
     expect(registry.get('nope')).toBeUndefined();
   });
 
+  it('should report registered operator names', () => {
+    const registry = new ConditionOperatorRegistry();
+    registry.register('a', jest.fn());
+    expect(registry.has('a')).toBe(true);
+    expect(registry.has('b')).toBe(false);
+    expect(registry.names()).toEqual(['a']);
+  });
+
   it('should return all registered operators', () => {
     const registry = new ConditionOperatorRegistry();
     const op1 = jest.fn();
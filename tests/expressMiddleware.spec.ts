@@ -0,0 +1,145 @@
+/**
+ * Tests for the Express middleware, using an in-process Express app
+ */
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { iamMiddleware } from '../src/integrations/express';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+describe('iamMiddleware', () => {
+  const user: User = { id: 'u1', roleIds: [], policyIds: ['p1'] };
+  const policy: Policy = {
+    id: 'p1',
+    name: 'docs',
+    statements: [
+      {
+        sid: 'ReadDocs',
+        effect: 'Allow',
+        actions: ['read'],
+        resources: ['doc:*'],
+        conditions: [{ operator: 'ne', key: 'channel', value: 'blocked' }],
+      },
+      { sid: 'NoSecrets', effect: 'Deny', actions: ['*'], resources: ['doc:secret'] },
+    ],
+  };
+  const iam = new IAM({
+    storage: new InMemoryAdapter({ users: [user], roles: [], policies: [policy] }),
+    config: { logger: new DefaultLogger('none') },
+  });
+
+  const app = express();
+  app.use((req, res, next) => {
+    if (req.header('x-user') === 'u1') res.locals.user = user;
+    next();
+  });
+  app.get(
+    '/docs/:id',
+    iamMiddleware(iam, {
+      action: 'read',
+      resource: (req) => `doc:${req.params.id}`,
+      context: (req) => ({ channel: req.query.channel ?? 'web' }),
+    }),
+    (req, res) => {
+      res.json({ id: req.params.id, sid: res.locals.iamDecision.trace.matchedStatement.sid });
+    }
+  );
+  app.delete(
+    '/docs/:id',
+    iamMiddleware(iam, {
+      action: 'delete',
+      resource: (req) => `doc:${req.params.id}`,
+      user: async () => user,
+      deniedStatus: 404,
+      deniedBody: (decision, req) => ({ missing: req.params.id, reason: decision.trace.reason }),
+    }),
+    (req, res) => {
+      res.sendStatus(204);
+    }
+  );
+  app.get(
+    '/broken',
+    iamMiddleware(iam, {
+      action: 'read',
+      resource: () => {
+        throw new Error('no resource');
+      },
+    }),
+    (req, res) => {
+      res.sendStatus(200);
+    }
+  );
+  class FailingAdapter extends InMemoryAdapter {
+    async getPolicies(): Promise<Policy[]> {
+      throw new Error('connection refused by db-internal:5432');
+    }
+  }
+  const failing = new IAM({
+    storage: new FailingAdapter({ users: [user] }),
+    config: { logger: new DefaultLogger('none') },
+  });
+  app.get('/outage', iamMiddleware(failing, { action: 'read', resource: 'doc:1' }), (req, res) => {
+    res.sendStatus(200);
+  });
+  app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    res.status(500).json({ message: err.message });
+  });
+
+  let server: Server;
+  let baseUrl: string;
+  beforeAll(async () => {
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const request = (path: string, init: RequestInit = {}, userId = 'u1') =>
+    fetch(`${baseUrl}${path}`, { ...init, headers: { 'x-user': userId } });
+
+  it('should call the next handler with the decision on res.locals', async () => {
+    const res = await request('/docs/1');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: '1', sid: 'ReadDocs' });
+  });
+
+  it('should respond 403 with the trace reason when denied', async () => {
+    const res = await request('/docs/secret');
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'Forbidden', reason: expect.any(String) });
+  });
+
+  it('should pass the request context to conditions', async () => {
+    const res = await request('/docs/1?channel=blocked');
+    expect(res.status).toBe(403);
+  });
+
+  it('should use the configured status and body', async () => {
+    const res = await request('/docs/1', { method: 'DELETE' });
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ missing: '1', reason: expect.any(String) });
+  });
+
+  it('should respond 401 when there is no user', async () => {
+    const res = await request('/docs/1', {}, '');
+    expect(res.status).toBe(401);
+  });
+
+  it('should forward errors to the Express error handler', async () => {
+    const res = await request('/broken');
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ message: 'no resource' });
+  });
+
+  it('should forward IAM evaluation errors instead of denying with their message', async () => {
+    const res = await request('/outage');
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ message: 'connection refused by db-internal:5432' });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for the Fastify plugin and the Hono middleware, using in-process apps
+ */
+import Fastify from 'fastify';
+import { Hono } from 'hono';
+import { iamFastifyPlugin } from '../src/integrations/fastify';
+import { iamHonoMiddleware, type IAMHonoEnv } from '../src/integrations/hono';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+const user: User = { id: 'u1', roleIds: [], policyIds: ['p1'] };
+const policy: Policy = {
+  id: 'p1',
+  name: 'docs',
+  statements: [
+    { sid: 'ReadDocs', effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+    { sid: 'NoSecrets', effect: 'Deny', actions: ['*'], resources: ['doc:secret'] },
+  ],
+};
+const iam = new IAM({
+  storage: new InMemoryAdapter({ users: [user], roles: [], policies: [policy] }),
+  config: { logger: new DefaultLogger('none') },
+});
+const userFor = (header: unknown) => (header === 'u1' ? user : undefined);
+
+class FailingAdapter extends InMemoryAdapter {
+  async getPolicies(): Promise<Policy[]> {
+    throw new Error('connection refused by db-internal:5432');
+  }
+}
+const failing = new IAM({
+  storage: new FailingAdapter({ users: [user] }),
+  config: { logger: new DefaultLogger('none') },
+});
+
+describe('iamFastifyPlugin', () => {
+  const app = Fastify();
+  app.register(iamFastifyPlugin, { iam, user: (request) => userFor(request.headers['x-user']) });
+  app.register(async (docs) => {
+    docs.get<{ Params: { id: string } }>(
+      '/docs/:id',
+      { config: { iam: { action: 'read', resource: (request) => `doc:${(request.params as any).id}` } } },
+      async (request) => ({ sid: request.iamDecision?.trace.matchedStatement?.sid })
+    );
+    docs.get('/health', async () => ({ ok: true }));
+  });
+  afterAll(() => app.close());
+
+  it('should run the handler when allowed, with the decision on the request', async () => {
+    const res = await app.inject({ url: '/docs/1', headers: { 'x-user': 'u1' } });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ sid: 'ReadDocs' });
+  });
+
+  it('should respond 403 with the trace reason when denied', async () => {
+    const res = await app.inject({ url: '/docs/secret', headers: { 'x-user': 'u1' } });
+    expect(res.statusCode).toBe(403);
+    expect(res.json()).toEqual({ error: 'Forbidden', reason: 'Denied by policy p1' });
+  });
+
+  it('should pass evaluation errors to the Fastify error handler', async () => {
+    const outage = Fastify();
+    outage.register(iamFastifyPlugin, { iam: failing, user: () => user });
+    outage.setErrorHandler((err, request, reply) => {
+      reply.code(503).send({ failed: (err as Error).message });
+    });
+    outage.get('/docs/1', { config: { iam: { action: 'read', resource: 'doc:1' } } }, async () => ({ ok: true }));
+    const res = await outage.inject({ url: '/docs/1' });
+    expect(res.statusCode).toBe(503);
+    expect(res.json()).toEqual({ failed: 'connection refused by db-internal:5432' });
+    await outage.close();
+  });
+
+  it('should respond 401 without a user and skip routes without config', async () => {
+    expect((await app.inject({ url: '/docs/1' })).statusCode).toBe(401);
+    expect((await app.inject({ url: '/health' })).statusCode).toBe(200);
+  });
+});
+
+describe('iamHonoMiddleware', () => {
+  const app = new Hono<IAMHonoEnv>();
+  app.use('*', async (c, next) => {
+    const current = userFor(c.req.header('x-user'));
+    if (current) c.set('user', current);
+    await next();
+  });
+  app.get(
+    '/docs/:id',
+    iamHonoMiddleware(iam, { action: 'read', resource: (c) => `doc:${c.req.param('id')}` }),
+    (c) => c.json({ sid: c.get('iamDecision').trace.matchedStatement?.sid })
+  );
+  app.delete(
+    '/docs/:id',
+    iamHonoMiddleware(iam, {
+      action: 'delete',
+      resource: (c) => `doc:${c.req.param('id')}`,
+      deniedStatus: 404,
+      deniedBody: (decision) => ({ reason: decision.trace.reason }),
+    }),
+    (c) => c.body(null, 204)
+  );
+
+  it('should run the handler when allowed, with the decision in the context', async () => {
+    const res = await app.request('/docs/1', { headers: { 'x-user': 'u1' } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ sid: 'ReadDocs' });
+  });
+
+  it('should respond 403 with the trace reason when denied', async () => {
+    const res = await app.request('/docs/secret', { headers: { 'x-user': 'u1' } });
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'Forbidden', reason: 'Denied by policy p1' });
+  });
+
+  it('should use the configured status and body', async () => {
+    const res = await app.request('/docs/1', { method: 'DELETE', headers: { 'x-user': 'u1' } });
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ reason: expect.any(String) });
+  });
+
+  it('should respond 401 without a user', async () => {
+    expect((await app.request('/docs/1')).status).toBe(401);
+  });
+
+  it('should pass evaluation errors to onError instead of denying', async () => {
+    const outage = new Hono<IAMHonoEnv>();
+    outage.onError((err, c) => c.json({ failed: err.message }, 503));
+    outage.get('/docs/1', iamHonoMiddleware(failing, { action: 'read', resource: 'doc:1', user: () => user }), (c) =>
+      c.text('ok')
+    );
+    const res = await outage.request('/docs/1');
+    expect(res.status).toBe(503);
+    expect(await res.json()).toEqual({ failed: 'connection refused by db-internal:5432' });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for group-derived policies in IAM evaluation
+ */
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import { serializeGroup, deserializeGroup } from '../src/utils/serialization';
+import type { User, Role, Policy, Group } from '../src/types/entities';
+
+describe('IAM with groups', () => {
+  const policies: Policy[] = [
+    { id: 'pRead', name: 'read', statements: [{ effect: 'Allow', actions: ['read'], resources: ['doc:*'] }] },
+    { id: 'pWrite', name: 'write', statements: [{ effect: 'Allow', actions: ['write'], resources: ['doc:*'] }] },
+    { id: 'pNoDelete', name: 'noDelete', statements: [{ effect: 'Deny', actions: ['delete'], resources: ['*'] }] },
+    { id: 'pDelete', name: 'delete', statements: [{ effect: 'Allow', actions: ['delete'], resources: ['doc:*'] }] },
+  ];
+  const roles: Role[] = [
+    { id: 'writer', name: 'writer', policyIds: ['pWrite'] },
+  ];
+  const groups: Group[] = [
+    { id: 'readers', name: 'readers', userIds: ['u1'], roleIds: [], policyIds: ['pRead'] },
+    { id: 'writers', name: 'writers', userIds: ['u1'], roleIds: ['writer'], policyIds: [] },
+    { id: 'contractors', name: 'contractors', userIds: ['u1'], roleIds: [], policyIds: ['pNoDelete'] },
+  ];
+  const user: User = { id: 'u1', roleIds: [], policyIds: ['pDelete'] };
+  const outsider: User = { id: 'u2', roleIds: [], policyIds: [] };
+  const storage = new InMemoryAdapter({ users: [user, outsider], roles, policies, groups });
+  const iam = new IAM({ storage, config: { logger: new DefaultLogger('none') } });
+
+  it('should include policies attached to the group', async () => {
+    const result = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(result.decision).toBe(true);
+    expect(result.trace.matchedVia).toEqual([{ type: 'group', id: 'readers' }]);
+  });
+
+  it('should include policies of roles attached to the group', async () => {
+    const result = await iam.can({ user, action: 'write', resource: 'doc:1' });
+    expect(result.decision).toBe(true);
+    expect(result.trace.matchedVia).toEqual([
+      { type: 'group', id: 'writers' },
+      { type: 'role', id: 'writer' },
+    ]);
+  });
+
+  it('should apply group deny statements over direct allows', async () => {
+    const result = await iam.can({ user, action: 'delete', resource: 'doc:1' });
+    expect(result.decision).toBe(false);
+    expect(result.trace.matchedPolicy?.id).toBe('pNoDelete');
+  });
+
+  it('should not grant group policies to non-members', async () => {
+    const result = await iam.can({ user: outsider, action: 'read', resource: 'doc:1' });
+    expect(result.decision).toBe(false);
+  });
+
+  it('should call onRoleNotFound for missing group roles', async () => {
+    const onRoleNotFound = jest.fn();
+    const broken: Group = { id: 'broken', name: 'broken', userIds: ['u3'], roleIds: ['ghost'], policyIds: [] };
+    const u: User = { id: 'u3', roleIds: ['writer'], policyIds: [] };
+    const brokenIam = new IAM({
+      storage: new InMemoryAdapter({ users: [u], roles, policies, groups: [broken] }),
+      config: { logger: new DefaultLogger('none') },
+      hooks: { onRoleNotFound },
+    });
+    await brokenIam.can({ user: u, action: 'write', resource: 'doc:1' });
+    expect(onRoleNotFound).toHaveBeenCalledWith('ghost');
+  });
+
+  it('should serialize and deserialize groups', () => {
+    expect(deserializeGroup(serializeGroup(groups[1]))).toEqual(groups[1]);
+  });
+});
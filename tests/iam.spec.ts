@@ -4,6 +4,7 @@
 import { IAM } from "../src/core/iam";
 import { InMemoryAdapter } from "../src/adapters/inMemoryAdapter";
 import { defaultPolicyEvaluator } from "../src/core/defaultEvaluator";
+import { ConditionOperatorRegistry } from "../src/core/evaluator";
 import { DefaultLogger } from "../src/core/logger";
 import { User, Role, Policy } from "../src/types/entities";
 
@@ -69,6 +70,26 @@ describe("IAM core and adapters", () => {
       expect(result.decision).toBe(true);
     });
 
+    it("should apply deny-overrides across user and role policies", async () => {
+      const denyRead: Policy = {
+        id: "pDeny",
+        name: "DenyRead",
+        statements: [{ effect: "Deny", actions: ["read"], resources: ["doc:1"] }],
+      };
+      const u: User = { id: "u7", roleIds: ["r1"], policyIds: ["pDeny"] };
+      const storage = new InMemoryAdapter({ users: [u], roles: [role], policies: [policy, denyRead] });
+      const logger = new DefaultLogger("error");
+      const denyIam = new IAM({ storage, config: { logger } });
+      const denied = await denyIam.can({ user: u, action: "read", resource: "doc:1" });
+      expect(denied.decision).toBe(false);
+      expect(denied.trace.matchedStatements).toHaveLength(2);
+
+      const permitIam = new IAM({ storage, config: { logger }, combiningAlgorithm: "permit-overrides" });
+      const allowed = await permitIam.can({ user: u, action: "read", resource: "doc:1" });
+      expect(allowed.decision).toBe(true);
+      expect(allowed.trace.algorithm).toBe("permit-overrides");
+    });
+
     it("should support role assignment utilities", () => {
       const u = { ...user, roleIds: [] };
       const withRole = assignRole(u, "r1");
@@ -78,6 +99,76 @@ describe("IAM core and adapters", () => {
     });
   });
 
+  describe("Custom condition operators", () => {
+    const condPolicy: Policy = {
+      id: "pc",
+      name: "AllowIfCustom",
+      statements: [
+        {
+          effect: "Allow",
+          actions: ["read"],
+          resources: ["doc:1"],
+          conditions: [{ operator: "startsWith", key: "team", value: "eng" }],
+        },
+      ],
+    };
+    const condUser: User = { id: "uc", roleIds: [], policyIds: ["pc"] };
+    const storage = new InMemoryAdapter({ users: [condUser], policies: [condPolicy] });
+    const logger = new DefaultLogger("error");
+    const startsWith = (key: string, value: unknown, ctx: Record<string, unknown>) =>
+      typeof ctx[key] === "string" && (ctx[key] as string).startsWith(String(value));
+
+    it("should use operators passed as a map", async () => {
+      const iam = new IAM({ storage, config: { logger }, operators: { startsWith } });
+      const allowed = await iam.can({ user: condUser, action: "read", resource: "doc:1", context: { team: "eng-core" } });
+      expect(allowed.decision).toBe(true);
+      const denied = await iam.can({ user: condUser, action: "read", resource: "doc:1", context: { team: "ops" } });
+      expect(denied.decision).toBe(false);
+    });
+
+    it("should use operators registered in a registry, including later registrations", async () => {
+      const registry = new ConditionOperatorRegistry();
+      const iam = new IAM({ storage, config: { logger }, operators: registry });
+      expect(iam.listConditionOperators()).not.toContain("startsWith");
+      registry.register("startsWith", startsWith);
+      expect(iam.listConditionOperators()).toEqual(expect.arrayContaining(["eq", "regex", "startsWith"]));
+      const allowed = await iam.can({ user: condUser, action: "read", resource: "doc:1", context: { team: "eng" } });
+      expect(allowed.decision).toBe(true);
+    });
+
+    it("should let custom operators override the defaults", async () => {
+      const eqPolicy: Policy = {
+        id: "pe",
+        name: "AllowIfEq",
+        statements: [
+          {
+            effect: "Allow",
+            actions: ["read"],
+            resources: ["doc:1"],
+            conditions: [{ operator: "eq", key: "team", value: "ENG" }],
+          },
+        ],
+      };
+      const eqUser: User = { id: "ue", roleIds: [], policyIds: ["pe"] };
+      const iam = new IAM({
+        storage: new InMemoryAdapter({ users: [eqUser], policies: [eqPolicy] }),
+        config: { logger },
+        operators: {
+          eq: (key, value, ctx) => String(ctx[key]).toLowerCase() === String(value).toLowerCase(),
+        },
+      });
+      const result = await iam.can({ user: eqUser, action: "read", resource: "doc:1", context: { team: "eng" } });
+      expect(result.decision).toBe(true);
+    });
+
+    it("should call onConditionCheck for custom operators", async () => {
+      const onConditionCheck = jest.fn();
+      const iam = new IAM({ storage, config: { logger }, operators: { startsWith }, hooks: { onConditionCheck } });
+      await iam.can({ user: condUser, action: "read", resource: "doc:1", context: { team: "eng" } });
+      expect(onConditionCheck).toHaveBeenCalledWith("startsWith", "team", "eng", expect.anything(), true);
+    });
+  });
+
   describe("JSONFileAdapter", () => {
     const tmpPath = join(__dirname, "iam-test.json");
     let adapter: JSONFileAdapter;
@@ -224,6 +315,29 @@ describe("IAM core and adapters", () => {
       expect(onConditionCheck).toHaveBeenCalledWith('eq', 'foo', 'bar', expect.anything(), true);
     });
 
+    it("should not pass failing conditions when onConditionCheck is set", async () => {
+      const condPolicy: Policy = {
+        id: "p2",
+        name: "AllowReadIfFoo",
+        statements: [
+          {
+            effect: "Allow",
+            actions: ["read"],
+            resources: ["doc:1"],
+            conditions: [{ operator: "eq", key: "foo", value: "bar" }],
+          },
+        ],
+      };
+      const condUser: User = { id: "u4", roleIds: [], policyIds: ["p2"] };
+      const adapter = new InMemoryAdapter({ users: [condUser], roles: [], policies: [condPolicy] });
+      const onConditionCheck = jest.fn();
+      const logger = new DefaultLogger('error');
+      const iam = new IAM({ storage: adapter, config: { logger }, hooks: { onConditionCheck } });
+      const res = await iam.can({ user: condUser, action: "read", resource: "doc:1", context: { foo: "baz" } });
+      expect(res.decision).toBe(false);
+      expect(onConditionCheck).toHaveBeenCalledWith('eq', 'foo', 'bar', expect.anything(), false);
+    });
+
     it("should call onStorageAccess before and after storage method", async () => {
       const adapter = new InMemoryAdapter({ users: [user], roles: [role], policies: [policy] });
       const onStorageAccess = jest.fn();
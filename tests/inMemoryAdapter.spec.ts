@@ -2,7 +2,7 @@
  * Unit tests for InMemoryAdapter
  */
 import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
-import type { User, Role, Policy } from '../src/types/entities';
+import type { User, Role, Policy, Group } from '../src/types/entities';
 
 describe('InMemoryAdapter', () => {
   const user: User = { id: 'u1', roleIds: ['r1'], policyIds: ['p1'] };
@@ -12,10 +12,11 @@ describe('InMemoryAdapter', () => {
     name: 'policy',
     statements: [],
   };
+  const group: Group = { id: 'g1', name: 'group', userIds: ['u1'], roleIds: ['r1'], policyIds: ['p1'] };
   let adapter: InMemoryAdapter;
 
   beforeEach(() => {
-    adapter = new InMemoryAdapter({ users: [user], roles: [role], policies: [policy] });
+    adapter = new InMemoryAdapter({ users: [user], roles: [role], policies: [policy], groups: [group] });
   });
 
   it('should get user by id', async () => {
@@ -107,6 +108,28 @@ describe('InMemoryAdapter', () => {
     await adapter.deletePolicy('p1');
     expect(await adapter.getPolicy('p1')).toBeUndefined();
   });
+  it('should get groups by id, by ids, for a user, and as an async iterable', async () => {
+    expect(await adapter.getGroup('g1')).toEqual(group);
+    expect(await adapter.getGroup('nope')).toBeUndefined();
+    expect(await adapter.getGroups(['g1', 'nope'])).toEqual([group]);
+    expect(await adapter.getGroupsForUser('u1')).toEqual([group]);
+    expect(await adapter.getGroupsForUser('u2')).toEqual([]);
+    const groups: Group[] = [];
+    for await (const g of adapter.getAllGroups()) groups.push(g);
+    expect(groups).toEqual([group]);
+  });
+
+  it('should save, update and delete group', async () => {
+    const g2: Group = { id: 'g2', name: 'g2', userIds: [], roleIds: [], policyIds: [] };
+    await adapter.saveGroup(g2);
+    expect(await adapter.getGroup('g2')).toEqual(g2);
+    const updated = { ...g2, userIds: ['u2'] };
+    await adapter.saveGroup(updated);
+    expect(await adapter.getGroup('g2')).toEqual(updated);
+    expect(await adapter.getGroupsForUser('u2')).toEqual([updated]);
+    await adapter.deleteGroup('g2');
+    expect(await adapter.getGroup('g2')).toBeUndefined();
+  });
 });
 
 /**
@@ -151,4 +174,14 @@ describe('InMemoryAdapter edge cases', () => {
     await adapter.savePolicy(policy2);
     expect(await adapter.getPolicy('p')).toEqual(policy2);
   });
+
+  it('should store notActions and notResources', async () => {
+    const policy: Policy = {
+      id: 'p',
+      name: 'p',
+      statements: [{ effect: 'Allow', notActions: ['admin:*'], resources: ['*'] }],
+    };
+    const adapter = new InMemoryAdapter({ policies: [policy] });
+    expect(await adapter.getPolicy('p')).toEqual(policy);
+  });
 });
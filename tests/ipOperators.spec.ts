@@ -0,0 +1,139 @@
+/**
+ * Unit tests for IP range condition operators
+ */
+import { ipConditionOperators, parseCIDR, parseIPAddress } from '../src/core/ipOperators';
+import { defaultPolicyEvaluator } from '../src/core/defaultEvaluator';
+import { defaultConditionOperators } from '../src/core/evaluator';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+describe('parseIPAddress', () => {
+  it('should parse IPv4 and IPv6 addresses', () => {
+    expect(parseIPAddress('10.1.2.3')).toEqual({ version: 4, value: 0x0a010203n });
+    expect(parseIPAddress('2001:db8::1')).toEqual({ version: 6, value: (0x20010db8n << 96n) | 1n });
+    expect(parseIPAddress('::')).toEqual({ version: 6, value: 0n });
+    expect(parseIPAddress('fe80::1%eth0')?.version).toBe(6);
+  });
+
+  it('should treat IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(parseIPAddress('::ffff:10.1.2.3')).toEqual({ version: 4, value: 0x0a010203n });
+  });
+
+  it('should reject invalid addresses', () => {
+    for (const bad of ['256.0.0.1', '1.2.3', '01.2.3.4', '1::2::3', '2001:db8:0:0:0:0:0:0:1', 'gggg::1', '']) {
+      expect(parseIPAddress(bad)).toBeUndefined();
+    }
+  });
+});
+
+describe('parseCIDR', () => {
+  it('should parse blocks and mask host bits', () => {
+    expect(parseCIDR('10.1.2.3/8')).toEqual({ version: 4, value: 0x0a000000n, prefixLength: 8 });
+    expect(parseCIDR('192.168.0.1')).toEqual({ version: 4, value: 0xc0a80001n, prefixLength: 32 });
+  });
+
+  it('should reject invalid prefixes', () => {
+    expect(parseCIDR('10.0.0.0/33')).toBeUndefined();
+    expect(parseCIDR('2001:db8::/129')).toBeUndefined();
+    expect(parseCIDR('10.0.0.0/x')).toBeUndefined();
+    expect(parseCIDR('10.0.0.0/8/8')).toBeUndefined();
+  });
+});
+
+describe('ipConditionOperators', () => {
+  const { ipInRange, notIpInRange } = ipConditionOperators;
+
+  it('should match IPv4 addresses against a single block or a list', () => {
+    expect(ipInRange('ip', '10.0.0.0/8', { ip: '10.20.30.40' })).toBe(true);
+    expect(ipInRange('ip', ['192.168.0.0/16', '10.0.0.0/8'], { ip: '10.20.30.40' })).toBe(true);
+    expect(ipInRange('ip', '10.0.0.0/8', { ip: '11.0.0.1' })).toBe(false);
+    expect(ipInRange('ip', '0.0.0.0/0', { ip: '8.8.8.8' })).toBe(true);
+  });
+
+  it('should match IPv6 addresses', () => {
+    expect(ipInRange('ip', '2001:db8::/32', { ip: '2001:db8:1234::5' })).toBe(true);
+    expect(ipInRange('ip', '2001:db8::/32', { ip: '2001:db9::5' })).toBe(false);
+  });
+
+  it('should not match addresses of the other IP version', () => {
+    expect(ipInRange('ip', '::/0', { ip: '10.0.0.1' })).toBe(false);
+    expect(notIpInRange('ip', '::/0', { ip: '10.0.0.1' })).toBe(true);
+  });
+
+  it('should negate with notIpInRange', () => {
+    expect(notIpInRange('ip', ['10.0.0.0/8'], { ip: '10.0.0.1' })).toBe(false);
+    expect(notIpInRange('ip', ['10.0.0.0/8'], { ip: '172.16.0.1' })).toBe(true);
+  });
+
+  it('should throw on invalid addresses and blocks', () => {
+    expect(() => ipInRange('ip', '10.0.0.0/8', { ip: 'not-an-ip' })).toThrow(/Invalid IP address/);
+    expect(() => notIpInRange('ip', '10.0.0.0/8', {})).toThrow(/Invalid IP address/);
+    expect(() => ipInRange('ip', ['10.0.0.0/8', 'office'], { ip: '10.0.0.1' })).toThrow(/Invalid CIDR/);
+  });
+});
+
+describe('defaultPolicyEvaluator with IP conditions', () => {
+  const user: User = { id: 'u1', roleIds: [], policyIds: [] };
+  const ops = { ...defaultConditionOperators, ...ipConditionOperators };
+  const evaluator = defaultPolicyEvaluator(new DefaultLogger('none'));
+  const allowAdmin: Policy = {
+    id: 'allowAdmin',
+    name: 'allowAdmin',
+    statements: [{ effect: 'Allow', actions: ['admin:*'], resources: ['*'] }],
+  };
+  const officeOnly: Policy = {
+    id: 'officeOnly',
+    name: 'officeOnly',
+    statements: [
+      {
+        sid: 'OutsideOffice',
+        effect: 'Deny',
+        actions: ['admin:*'],
+        resources: ['*'],
+        conditions: [{ operator: 'notIpInRange', key: 'sourceIp', value: ['203.0.113.0/24', '2001:db8::/32'] }],
+      },
+    ],
+  };
+  const run = (context: Record<string, unknown>) =>
+    evaluator(user, 'admin:reset', 'system', context, [allowAdmin, officeOnly], [], ops);
+
+  it('should allow admin actions from the office network only', async () => {
+    expect((await run({ sourceIp: '203.0.113.9' })).decision).toBe(true);
+    expect((await run({ sourceIp: '2001:db8::42' })).decision).toBe(true);
+    expect((await run({ sourceIp: '198.51.100.1' })).decision).toBe(false);
+  });
+
+  it('should fail closed on invalid addresses and report them in the trace', async () => {
+    const result = await run({ sourceIp: 'unknown' });
+    expect(result.decision).toBe(false);
+    expect(result.trace.matchedPolicy?.id).toBe('officeOnly');
+    expect(result.trace.conditionErrors).toEqual([
+      {
+        policyId: 'officeOnly',
+        sid: 'OutsideOffice',
+        conditionPath: 'conditions[0]',
+        operator: 'notIpInRange',
+        message: 'Invalid IP address in "sourceIp": unknown',
+      },
+    ]);
+  });
+
+  it('should not let an Allow apply when its IP condition is invalid, even under not', async () => {
+    const notBlocked: Policy = {
+      id: 'notBlocked',
+      name: 'notBlocked',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['read'],
+          resources: ['*'],
+          conditions: [{ not: { operator: 'ipInRange', key: 'sourceIp', value: '198.51.100.0/24' } }],
+        },
+      ],
+    };
+    const result = await evaluator(user, 'read', 'doc:1', { sourceIp: '999.1.1.1' }, [notBlocked], [], ops);
+    expect(result.decision).toBe(false);
+    expect(result.trace.failedConditions?.[0].conditionPaths).toEqual(['conditions[0].not']);
+    expect(result.trace.conditionErrors).toHaveLength(1);
+  });
+});
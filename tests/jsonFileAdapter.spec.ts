@@ -2,7 +2,7 @@
  * Unit tests for JSONFileAdapter
  */
 import { JSONFileAdapter } from '../src/adapters/jsonFileAdapter';
-import type { User, Role, Policy } from '../src/types/entities';
+import type { User, Role, Policy, Group } from '../src/types/entities';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -10,12 +10,13 @@ describe('JSONFileAdapter', () => {
   const user: User = { id: 'u1', roleIds: ['r1'], policyIds: ['p1'] };
   const role: Role = { id: 'r1', name: 'role', policyIds: ['p1'] };
   const policy: Policy = { id: 'p1', name: 'policy', statements: [] };
+  const group: Group = { id: 'g1', name: 'group', userIds: ['u1'], roleIds: ['r1'], policyIds: ['p1'] };
   let adapter: JSONFileAdapter;
   let tmpPath: string;
 
   beforeEach(async () => {
     tmpPath = join(__dirname, 'iam-json-test.json');
-    await fs.writeFile(tmpPath, JSON.stringify({ users: [user], roles: [role], policies: [policy] }, null, 2));
+    await fs.writeFile(tmpPath, JSON.stringify({ users: [user], roles: [role], policies: [policy], groups: [group] }, null, 2));
     adapter = new JSONFileAdapter({ filePath: tmpPath });
   });
   afterEach(async () => {
@@ -111,4 +112,44 @@ describe('JSONFileAdapter', () => {
     await adapter.deletePolicy('p1');
     expect(await adapter.getPolicy('p1')).toBeUndefined();
   });
+
+  it('should get groups by id, by ids, for a user, and as an async iterable', async () => {
+    expect(await adapter.getGroup('g1')).toEqual(group);
+    expect(await adapter.getGroup('nope')).toBeUndefined();
+    expect(await adapter.getGroups(['g1', 'nope'])).toEqual([group]);
+    expect(await adapter.getGroupsForUser('u1')).toEqual([group]);
+    expect(await adapter.getGroupsForUser('u2')).toEqual([]);
+    const groups: Group[] = [];
+    for await (const g of adapter.getAllGroups()) groups.push(g);
+    expect(groups).toEqual([group]);
+  });
+
+  it('should save, update and delete group', async () => {
+    const g2: Group = { id: 'g2', name: 'g2', userIds: [], roleIds: [], policyIds: [] };
+    await adapter.saveGroup(g2);
+    expect(await adapter.getGroup('g2')).toEqual(g2);
+    const updated = { ...g2, userIds: ['u2'] };
+    await adapter.saveGroup(updated);
+    expect(await adapter.getGroup('g2')).toEqual(updated);
+    expect(await adapter.getGroupsForUser('u2')).toEqual([updated]);
+    await adapter.deleteGroup('g2');
+    expect(await adapter.getGroup('g2')).toBeUndefined();
+  });
+
+  it('should load files without a groups section', async () => {
+    await fs.writeFile(tmpPath, JSON.stringify({ users: [user], roles: [role], policies: [policy] }));
+    const legacy = new JSONFileAdapter({ filePath: tmpPath });
+    expect(await legacy.getGroupsForUser('u1')).toEqual([]);
+  });
+
+  it('should persist notActions and notResources', async () => {
+    const exceptRead: Policy = {
+      id: 'p3',
+      name: 'exceptRead',
+      statements: [{ effect: 'Deny', notActions: ['read'], notResources: ['public:*'] }],
+    };
+    await adapter.savePolicy(exceptRead);
+    const reloaded = new JSONFileAdapter({ filePath: tmpPath });
+    expect(await reloaded.getPolicy('p3')).toEqual(exceptRead);
+  });
 });
@@ -0,0 +1,96 @@
+/**
+ * Tests for the NestJS module, guard and Authorize decorator, using an in-process Nest app
+ */
+import 'reflect-metadata';
+import { Controller, Get, Param, Req, UseGuards, type INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { IAMModule, IAMGuard, Authorize } from '../src/integrations/nest';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+describe('NestJS integration', () => {
+  const user: User = { id: 'u1', roleIds: [], policyIds: ['p1'] };
+  const policy: Policy = {
+    id: 'p1',
+    name: 'docs',
+    statements: [
+      { sid: 'ReadDocs', effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+      { sid: 'NoSecrets', effect: 'Deny', actions: ['*'], resources: ['doc:secret'] },
+    ],
+  };
+  const storage = new InMemoryAdapter({ users: [user], roles: [], policies: [policy] });
+
+  @Controller('docs')
+  @UseGuards(IAMGuard)
+  @Authorize('read', (request: any) => `doc:${request.params.id}`)
+  class DocsController {
+    constructor(readonly iam: IAM) {}
+
+    @Get(':id')
+    read(@Param('id') id: string, @Req() request: any) {
+      return { id, sid: request.iamDecision.trace.matchedStatement.sid };
+    }
+
+    @Get(':id/delete')
+    @Authorize('delete', (request: any) => `doc:${request.params.id}`)
+    remove() {
+      return { deleted: true };
+    }
+  }
+
+  let app: INestApplication;
+  let baseUrl: string;
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        IAMModule.forRoot({
+          storage,
+          config: { logger: new DefaultLogger('none') },
+          getUser: (context) => (context.switchToHttp().getRequest().headers['x-user'] === 'u1' ? user : undefined),
+        }),
+      ],
+      controllers: [DocsController],
+    }).compile();
+    app = moduleRef.createNestApplication();
+    await app.listen(0, '127.0.0.1');
+    baseUrl = await app.getUrl();
+  });
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const request = (path: string, userId = 'u1') => fetch(`${baseUrl}${path}`, { headers: { 'x-user': userId } });
+
+  it('should provide the IAM instance through DI', () => {
+    expect(app.get(IAM)).toBeInstanceOf(IAM);
+  });
+
+  it('should allow handlers whose controller metadata is allowed', async () => {
+    const res = await request('/docs/1');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: '1', sid: 'ReadDocs' });
+  });
+
+  it('should respond 403 with the trace reason when denied', async () => {
+    const res = await request('/docs/secret');
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'Forbidden', reason: 'Denied by policy p1' });
+  });
+
+  it('should let handler metadata override controller metadata', async () => {
+    expect((await request('/docs/1/delete')).status).toBe(403);
+  });
+
+  it('should respond 401 without a user', async () => {
+    expect((await request('/docs/1', '')).status).toBe(401);
+  });
+
+  it('should rethrow evaluation errors instead of denying', async () => {
+    jest.spyOn(storage, 'getPolicies').mockRejectedValueOnce(new Error('connection refused by db-internal:5432'));
+    const res = await request('/docs/1');
+    expect(res.status).toBe(500);
+    expect(await res.text()).not.toContain('db-internal');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for partial evaluation (IAM.partialEvaluate)
+ */
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import { partialEvaluate, type ResidualExpression } from '../src/core/partialEvaluation';
+import { defaultConditionOperators } from '../src/core/evaluator';
+import { matchWildcard } from '../src/utils/wildcard';
+import type { User, Policy } from '../src/types/entities';
+
+/** Interpret a residual for a concrete resource, as a query translation would */
+function interpret(residual: ResidualExpression, id: string, attributes: Record<string, unknown>): boolean {
+  switch (residual.type) {
+    case 'allow-all':
+      return true;
+    case 'deny-all':
+      return false;
+    case 'resource':
+      return matchWildcard(residual.pattern, id);
+    case 'and':
+      return residual.operands.every((op) => interpret(op, id, attributes));
+    case 'or':
+      return residual.operands.some((op) => interpret(op, id, attributes));
+    case 'not':
+      return !interpret(residual.operand, id, attributes);
+    case 'condition': {
+      const { operator, key, value } = residual.condition;
+      const actual = { ...attributes, id }[key.replace(/^resource\./, '')];
+      return Boolean(defaultConditionOperators[operator](key, value, { [key]: actual }));
+    }
+  }
+}
+
+describe('Partial evaluation', () => {
+  const logger = new DefaultLogger('none');
+  const user: User = { id: 'u1', roleIds: [], policyIds: [], attributes: { team: 'blue', lead: false } };
+  const evaluate = (policies: Policy[], options: Partial<Parameters<typeof partialEvaluate>[1]> = {}) =>
+    partialEvaluate('read', { user, policies, operators: defaultConditionOperators, logger, ...options });
+  const policy = (statements: Policy['statements']): Policy[] => [{ id: 'p', name: 'p', statements }];
+
+  it('should return deny-all when no statement applies to the action', async () => {
+    const residual = await evaluate(policy([{ effect: 'Allow', actions: ['write'], resources: ['*'] }]));
+    expect(residual).toEqual({ type: 'deny-all' });
+  });
+
+  it('should return allow-all for an unconditional Allow on every resource', async () => {
+    const residual = await evaluate(policy([{ effect: 'Allow', actions: ['*'], resources: ['*'] }]));
+    expect(residual).toEqual({ type: 'allow-all' });
+  });
+
+  it('should keep resource patterns with policy variables substituted', async () => {
+    const residual = await evaluate(
+      policy([{ effect: 'Allow', actions: ['read'], resources: ['doc:public/*', 'doc:${user.id}/*'] }])
+    );
+    expect(residual).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'resource', pattern: 'doc:public/*' },
+        { type: 'resource', pattern: 'doc:u1/*' },
+      ],
+    });
+  });
+
+  it('should keep conditions on the resource and evaluate conditions on the user', async () => {
+    const residual = await evaluate(
+      policy([
+        {
+          effect: 'Allow',
+          actions: ['read'],
+          resources: ['doc:*'],
+          conditions: [
+            { operator: 'eq', key: 'user.attributes.team', value: 'blue' },
+            { operator: 'eq', key: 'resource.team', value: '${user.attributes.team}' },
+          ],
+        },
+        {
+          effect: 'Allow',
+          actions: ['read'],
+          resources: ['*'],
+          conditions: [{ operator: 'eq', key: 'user.attributes.lead', value: true }],
+        },
+      ])
+    );
+    expect(residual).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'resource', pattern: 'doc:*' },
+        { type: 'condition', condition: { operator: 'eq', key: 'resource.team', value: 'blue' } },
+      ],
+    });
+  });
+
+  it('should evaluate context conditions only when a context is given', async () => {
+    const policies = policy([
+      {
+        effect: 'Allow',
+        actions: ['read'],
+        resources: ['*'],
+        conditions: [{ operator: 'eq', key: 'context.mfa', value: true }],
+      },
+    ]);
+    expect(await evaluate(policies)).toEqual({
+      type: 'condition',
+      condition: { operator: 'eq', key: 'context.mfa', value: true },
+    });
+    expect(await evaluate(policies, { context: { mfa: true } })).toEqual({ type: 'allow-all' });
+    expect(await evaluate(policies, { context: { mfa: false } })).toEqual({ type: 'deny-all' });
+  });
+
+  it('should negate Deny statements under deny-overrides', async () => {
+    const residual = await evaluate(
+      policy([
+        { effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+        { effect: 'Deny', actions: ['*'], notResources: ['doc:public/*'], conditions: [{ operator: 'eq', key: 'resource.secret', value: true }] },
+      ])
+    );
+    expect(residual).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'resource', pattern: 'doc:*' },
+        {
+          type: 'not',
+          operand: {
+            type: 'and',
+            operands: [
+              { type: 'not', operand: { type: 'resource', pattern: 'doc:public/*' } },
+              { type: 'condition', condition: { operator: 'eq', key: 'resource.secret', value: true } },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('should ignore Deny statements under permit-overrides', async () => {
+    const residual = await evaluate(
+      policy([
+        { effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+        { effect: 'Deny', actions: ['read'], resources: ['*'] },
+      ]),
+      { combiningAlgorithm: 'permit-overrides' }
+    );
+    expect(residual).toEqual({ type: 'resource', pattern: 'doc:*' });
+  });
+
+  it('should fail closed when a condition operator throws', async () => {
+    const operators = {
+      ...defaultConditionOperators,
+      broken: () => {
+        throw new Error('boom');
+      },
+    };
+    const conditions = [{ operator: 'broken', key: 'user.id', value: 1 }];
+    const residual = await evaluate(
+      policy([
+        { effect: 'Allow', actions: ['read'], resources: ['*'], conditions },
+        { effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+        { effect: 'Deny', actions: ['read'], resources: ['doc:secret*'], conditions },
+      ]),
+      { operators }
+    );
+    expect(residual).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'resource', pattern: 'doc:*' },
+        { type: 'not', operand: { type: 'resource', pattern: 'doc:secret*' } },
+      ],
+    });
+  });
+
+  describe('consistency with IAM.can', () => {
+    const policies: Policy[] = [
+      {
+        id: 'docs',
+        name: 'docs',
+        statements: [
+          { effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+          {
+            effect: 'Allow',
+            actions: ['read'],
+            resources: ['draft:*'],
+            conditions: [{ anyOf: [{ operator: 'eq', key: 'resource.ownerId', value: '${user.id}' }, { operator: 'eq', key: 'resource.shared', value: true }] }],
+          },
+          { effect: 'Deny', actions: ['read'], resources: ['doc:archive/*'], conditions: [{ not: { operator: 'eq', key: 'user.attributes.lead', value: true } }] },
+        ],
+      },
+    ];
+    const storedUser: User = { ...user, policyIds: ['docs'] };
+    const resources: Array<[string, Record<string, unknown>]> = [
+      ['doc:1', {}],
+      ['doc:archive/2', {}],
+      ['draft:3', { ownerId: 'u1' }],
+      ['draft:4', { ownerId: 'u2' }],
+      ['draft:5', { ownerId: 'u2', shared: true }],
+      ['sheet:6', { ownerId: 'u1' }],
+    ];
+
+    it.each(['deny-overrides', 'permit-overrides', 'first-applicable'] as const)(
+      'should agree with can() under %s',
+      async (combiningAlgorithm) => {
+        const iam = new IAM({
+          storage: new InMemoryAdapter({ users: [storedUser], roles: [], policies }),
+          config: { logger },
+          combiningAlgorithm,
+        });
+        const residual = await iam.partialEvaluate(storedUser, 'read');
+        for (const [resource, resourceAttributes] of resources) {
+          const decision = await iam.can({ user: storedUser, action: 'read', resource, resourceAttributes });
+          expect([resource, interpret(residual, resource, resourceAttributes)]).toEqual([resource, decision.decision]);
+        }
+      }
+    );
+  });
+
+  it('should require a storage adapter', async () => {
+    const iam = new IAM({ config: { logger } });
+    await expect(iam.partialEvaluate(user, 'read')).rejects.toThrow('No storage adapter configured');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the RequireRole and RequirePolicy decorators
+ */
+import { RequireRole, RequirePolicy } from '../src/decorators/accessControl';
+import { IAM } from '../src/core/iam';
+import { AccessDeniedError } from '../src/core/errors';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Role, Policy, Group } from '../src/types/entities';
+
+describe('RequireRole and RequirePolicy decorators', () => {
+  const policies: Policy[] = [
+    { id: 'p-read', name: 'read', statements: [] },
+    { id: 'p-write', name: 'write', statements: [] },
+    { id: 'p-admin', name: 'admin', statements: [] },
+    { id: 'p-audit', name: 'audit', statements: [] },
+  ];
+  const roles: Role[] = [
+    { id: 'reader', name: 'reader', policyIds: ['p-read'] },
+    { id: 'editor', name: 'editor', policyIds: ['p-write'], parentRoleIds: ['reader'] },
+    { id: 'admin', name: 'admin', policyIds: ['p-admin'] },
+  ];
+  const groups: Group[] = [{ id: 'auditors', name: 'auditors', userIds: ['u1'], roleIds: ['admin'], policyIds: ['p-audit'] }];
+  const user: User = { id: 'u1', roleIds: ['editor'], policyIds: [] };
+  const outsider: User = { id: 'u2', roleIds: [], policyIds: ['p-read'] };
+  const iam = new IAM({
+    storage: new InMemoryAdapter({ users: [user, outsider], roles, policies, groups }),
+    config: { logger: new DefaultLogger('none') },
+  });
+
+  class Service {
+    iam = iam;
+    constructor(public user: User) {}
+
+    // @ts-expect-error
+    @RequireRole('reader')
+    async read(): Promise<any> { return 'read'; }
+
+    // @ts-expect-error
+    @RequireRole(['admin', 'owner'])
+    async administer(): Promise<any> { return 'admin'; }
+
+    // @ts-expect-error
+    @RequireRole(['editor', 'admin'], { mode: 'all' })
+    async publish(): Promise<any> { return 'published'; }
+
+    // @ts-expect-error
+    @RequirePolicy('p-audit')
+    async audit(): Promise<any> { return 'audit'; }
+
+    // @ts-expect-error
+    @RequirePolicy(['p-read', 'p-write'], { mode: 'all' })
+    async edit(): Promise<any> { return 'edit'; }
+  }
+
+  it('should accept directly assigned and inherited roles', async () => {
+    const service = new Service(user);
+    await expect(service.read()).resolves.toBe('read');
+    await expect(service.publish()).resolves.toBe('published');
+  });
+
+  it('should accept roles granted through groups in any-of mode', async () => {
+    await expect(new Service(user).administer()).resolves.toBe('admin');
+  });
+
+  it('should deny users without the required roles', async () => {
+    const service = new Service(outsider);
+    await expect(service.read()).rejects.toThrow('Access denied: missing required role reader');
+    await expect(service.publish()).rejects.toThrow('Access denied: missing required role editor, admin');
+  });
+
+  it('should check policies attached directly, through groups and through roles', async () => {
+    const service = new Service(user);
+    await expect(service.audit()).resolves.toBe('audit');
+    await expect(service.edit()).resolves.toBe('edit');
+    const limited = new Service(outsider);
+    await expect(limited.edit()).rejects.toThrow('Access denied: missing required policy p-write');
+    await expect(limited.audit()).rejects.toThrow(/Access denied/);
+  });
+
+  it('should deny with an AccessDeniedError when there is no user', async () => {
+    const err = await new Service(undefined as unknown as User).read().catch((e) => e);
+    expect(err).toBeInstanceOf(AccessDeniedError);
+    expect(err.message).toBe('Access denied: no user');
+    expect(err.trace.reason).toBe('no user');
+  });
+
+  it('should throw if IAM instance is missing', async () => {
+    class Orphan {
+      user = user;
+      // @ts-expect-error
+      @RequireRole('reader')
+      async read(): Promise<any> { return 'read'; }
+    }
+    const old = (global as any).iam;
+    delete (global as any).iam;
+    await expect(new Orphan().read()).rejects.toThrow('IAM instance not found');
+    if (old) (global as any).iam = old;
+  });
+
+  it('should expose memberships through IAM.getMemberships', async () => {
+    const memberships = await iam.getMemberships(user);
+    expect(memberships.roleIds.sort()).toEqual(['admin', 'editor', 'reader']);
+    expect(memberships.policyIds.sort()).toEqual(['p-admin', 'p-audit', 'p-read', 'p-write']);
+  });
+});
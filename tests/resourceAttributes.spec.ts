@@ -0,0 +1,93 @@
+/**
+ * Unit tests for resource attributes in conditions
+ */
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+describe('IAM with resource attributes', () => {
+  const policies: Policy[] = [
+    {
+      id: 'owner',
+      name: 'owner',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['doc:*'],
+          resources: ['doc:*'],
+          conditions: [{ operator: 'eq', key: 'resource.ownerId', value: '${user.id}' }],
+        },
+      ],
+    },
+    {
+      id: 'noSecret',
+      name: 'noSecret',
+      statements: [
+        {
+          effect: 'Deny',
+          actions: ['doc:*'],
+          resources: ['doc:*'],
+          conditions: [{ operator: 'eq', key: 'resource.classification', value: 'secret' }],
+        },
+      ],
+    },
+  ];
+  const user: User = { id: 'u1', roleIds: [], policyIds: ['owner', 'noSecret'] };
+  const documents: Record<string, Record<string, unknown>> = {
+    'doc:1': { ownerId: 'u1', classification: 'internal' },
+    'doc:2': { ownerId: 'u2', classification: 'internal' },
+    'doc:3': { ownerId: 'u1', classification: 'secret' },
+  };
+  const storage = new InMemoryAdapter({ users: [user], policies });
+  const logger = new DefaultLogger('none');
+
+  it('should expose resolved attributes to conditions', async () => {
+    const resourceResolver = jest.fn(async (resource: string) => documents[resource]);
+    const iam = new IAM({ storage, config: { logger }, resourceResolver });
+    expect((await iam.can({ user, action: 'doc:read', resource: 'doc:1' })).decision).toBe(true);
+    expect((await iam.can({ user, action: 'doc:read', resource: 'doc:2' })).decision).toBe(false);
+    expect((await iam.can({ user, action: 'doc:read', resource: 'doc:3' })).decision).toBe(false);
+    expect(resourceResolver).toHaveBeenCalledWith('doc:1', expect.objectContaining({ action: 'doc:read' }));
+  });
+
+  it('should use attributes passed in CanParams without calling the resolver', async () => {
+    const resourceResolver = jest.fn();
+    const iam = new IAM({ storage, config: { logger }, resourceResolver });
+    const result = await iam.can({
+      user,
+      action: 'doc:read',
+      resource: 'doc:9',
+      resourceAttributes: { ownerId: 'u1' },
+    });
+    expect(result.decision).toBe(true);
+    expect(resourceResolver).not.toHaveBeenCalled();
+  });
+
+  it('should deny when the resource has no attributes', async () => {
+    const iam = new IAM({ storage, config: { logger }, resourceResolver: () => undefined });
+    expect((await iam.can({ user, action: 'doc:read', resource: 'doc:9' })).decision).toBe(false);
+  });
+
+  it('should deny with the error as reason when the resolver fails', async () => {
+    const iam = new IAM({
+      storage,
+      config: { logger },
+      resourceResolver: async () => {
+        throw new Error('database unavailable');
+      },
+    });
+    const result = await iam.can({ user, action: 'doc:read', resource: 'doc:1' });
+    expect(result.decision).toBe(false);
+    expect(result.trace.reason).toBe('database unavailable');
+  });
+
+  it('should cache decisions per resource attributes', async () => {
+    const iam = new IAM({ storage, config: { logger }, cache: {} });
+    const mine = await iam.can({ user, action: 'doc:read', resource: 'doc:9', resourceAttributes: { ownerId: 'u1' } });
+    const theirs = await iam.can({ user, action: 'doc:read', resource: 'doc:9', resourceAttributes: { ownerId: 'u2' } });
+    expect(mine.decision).toBe(true);
+    expect(theirs.decision).toBe(false);
+    expect(theirs.trace.cache?.decision).toBe('miss');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for role hierarchy resolution
+ */
+import { resolveRoleHierarchy } from '../src/core/roleHierarchy';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Role, Policy } from '../src/types/entities';
+
+describe('resolveRoleHierarchy', () => {
+  const roles: Role[] = [
+    { id: 'editor', name: 'editor', policyIds: ['pEdit'], parentRoleIds: ['viewer'] },
+    { id: 'viewer', name: 'viewer', policyIds: ['pView'], parentRoleIds: ['base'] },
+    { id: 'base', name: 'base', policyIds: ['pBase'] },
+    { id: 'a', name: 'a', policyIds: [], parentRoleIds: ['b'] },
+    { id: 'b', name: 'b', policyIds: [], parentRoleIds: ['a'] },
+    { id: 'orphan', name: 'orphan', policyIds: [], parentRoleIds: ['ghost'] },
+  ];
+  const byId = new Map(roles.map((r) => [r.id, r]));
+  const fetchRoles = jest.fn(async (ids: string[]) =>
+    ids.map((id) => byId.get(id)).filter(Boolean) as Role[]
+  );
+  const logger = new DefaultLogger('none');
+
+  beforeEach(() => fetchRoles.mockClear());
+
+  it('should resolve the transitive closure level by level', async () => {
+    const result = await resolveRoleHierarchy([byId.get('editor')!], fetchRoles);
+    expect(result.roles.map((r) => r.id)).toEqual(['editor', 'viewer', 'base']);
+    expect(result.paths.get('base')).toEqual(['editor', 'viewer', 'base']);
+    expect(fetchRoles).toHaveBeenCalledTimes(2);
+  });
+
+  it('should detect and cut cycles', async () => {
+    const result = await resolveRoleHierarchy([byId.get('a')!], fetchRoles, { logger });
+    expect(result.roles.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(result.cycles).toEqual([['a', 'b', 'a']]);
+  });
+
+  it('should report inherited roles that do not exist', async () => {
+    const result = await resolveRoleHierarchy([byId.get('orphan')!], fetchRoles, { logger });
+    expect(result.missing).toEqual(['ghost']);
+    expect(result.roles.map((r) => r.id)).toEqual(['orphan']);
+  });
+
+  it('should not fetch a role twice when reached through several branches', async () => {
+    const result = await resolveRoleHierarchy([byId.get('editor')!, byId.get('viewer')!], fetchRoles);
+    expect(result.roles.map((r) => r.id)).toEqual(['editor', 'viewer', 'base']);
+    expect(result.paths.get('viewer')).toEqual(['viewer']);
+  });
+
+  it('should throw when the hierarchy is deeper than the limit', async () => {
+    await expect(
+      resolveRoleHierarchy([byId.get('editor')!], fetchRoles, { maxDepth: 1 })
+    ).rejects.toThrow(/maximum depth of 1/);
+  });
+});
+
+describe('IAM with hierarchical roles', () => {
+  const policies: Policy[] = [
+    { id: 'pView', name: 'view', statements: [{ effect: 'Allow', actions: ['read'], resources: ['doc:*'] }] },
+    { id: 'pEdit', name: 'edit', statements: [{ effect: 'Allow', actions: ['write'], resources: ['doc:*'] }] },
+    { id: 'pLock', name: 'lock', statements: [{ effect: 'Deny', actions: ['write'], resources: ['doc:locked'] }] },
+  ];
+  const roles: Role[] = [
+    { id: 'editor', name: 'editor', policyIds: ['pEdit'], parentRoleIds: ['viewer'] },
+    { id: 'viewer', name: 'viewer', policyIds: ['pView'], parentRoleIds: ['restricted'] },
+    { id: 'restricted', name: 'restricted', policyIds: ['pLock'] },
+  ];
+  const user: User = { id: 'u1', roleIds: ['editor'], policyIds: [] };
+  const storage = new InMemoryAdapter({ users: [user], roles, policies });
+  const logger = new DefaultLogger('none');
+
+  it('should allow through an inherited role and report the path', async () => {
+    const iam = new IAM({ storage, config: { logger } });
+    const result = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(result.decision).toBe(true);
+    expect(result.trace.matchedVia).toEqual([
+      { type: 'role', id: 'editor' },
+      { type: 'role', id: 'viewer' },
+    ]);
+  });
+
+  it('should apply deny statements inherited from ancestor roles', async () => {
+    const iam = new IAM({ storage, config: { logger } });
+    const result = await iam.can({ user, action: 'write', resource: 'doc:locked' });
+    expect(result.decision).toBe(false);
+    expect(result.trace.matchedPolicy?.id).toBe('pLock');
+    expect(result.trace.matchedStatements?.map((m) => m.via?.map((s) => s.id))).toEqual([
+      ['editor'],
+      ['editor', 'viewer', 'restricted'],
+    ]);
+  });
+
+  it('should deny when the role hierarchy exceeds maxRoleDepth', async () => {
+    const iam = new IAM({ storage, config: { logger }, maxRoleDepth: 1 });
+    const result = await iam.can({ user, action: 'read', resource: 'doc:1' });
+    expect(result.decision).toBe(false);
+    expect(result.trace.reason).toMatch(/maximum depth/);
+  });
+
+  it('should call onRoleNotFound for missing inherited roles', async () => {
+    const onRoleNotFound = jest.fn();
+    const broken: Role = { id: 'broken', name: 'broken', policyIds: [], parentRoleIds: ['ghost'] };
+    const u: User = { id: 'u2', roleIds: ['broken'], policyIds: [] };
+    const iam = new IAM({
+      storage: new InMemoryAdapter({ users: [u], roles: [broken] }),
+      config: { logger },
+      hooks: { onRoleNotFound },
+    });
+    await iam.can({ user: u, action: 'read', resource: 'doc:1' });
+    expect(onRoleNotFound).toHaveBeenCalledWith('ghost');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for policy simulation (IAM.simulate and OverlayStorage)
+ */
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import { OverlayStorage, type SimulationRequest } from '../src/core/simulator';
+import type { User, Role, Policy, Group } from '../src/types/entities';
+
+describe('Policy simulation', () => {
+  const policies: Policy[] = [
+    {
+      id: 'docs',
+      name: 'docs',
+      statements: [{ sid: 'ReadDocs', effect: 'Allow', actions: ['read'], resources: ['doc:*'] }],
+    },
+    {
+      id: 'editing',
+      name: 'editing',
+      statements: [{ sid: 'EditDocs', effect: 'Allow', actions: ['edit'], resources: ['doc:*'] }],
+    },
+  ];
+  const roles: Role[] = [
+    { id: 'reader', name: 'reader', policyIds: ['docs'] },
+    { id: 'editor', name: 'editor', policyIds: ['editing'], parentRoleIds: ['reader'] },
+  ];
+  const groups: Group[] = [{ id: 'team', name: 'team', userIds: ['bob'], roleIds: [], policyIds: [] }];
+  const alice: User = { id: 'alice', roleIds: ['editor'], policyIds: [] };
+  const bob: User = { id: 'bob', roleIds: ['reader'], policyIds: [] };
+  const requests: SimulationRequest[] = [
+    { user: alice, action: 'read', resource: 'doc:1' },
+    { user: alice, action: 'edit', resource: 'doc:1' },
+    { user: alice, action: 'read', resource: 'doc:secret' },
+    { user: bob, action: 'read', resource: 'doc:secret' },
+    { user: bob, action: 'edit', resource: 'doc:1' },
+  ];
+  const makeIAM = () => {
+    const storage = new InMemoryAdapter({ users: [alice, bob], roles, policies, groups });
+    return { storage, iam: new IAM({ storage, config: { logger: new DefaultLogger('none') } }) };
+  };
+
+  describe('IAM.simulate', () => {
+    it('should report decisions flipped by a policy edit, with both traces', async () => {
+      const { iam } = makeIAM();
+      const report = await iam.simulate(
+        {
+          policies: [
+            {
+              id: 'docs',
+              name: 'docs',
+              statements: [
+                { sid: 'ReadDocs', effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+                { sid: 'NoSecrets', effect: 'Deny', actions: ['*'], resources: ['doc:secret*'] },
+              ],
+            },
+          ],
+        },
+        requests
+      );
+      expect(report.evaluated).toBe(5);
+      expect(report.flipped.map((f) => [f.request.user.id, f.request.action, f.request.resource])).toEqual([
+        ['alice', 'read', 'doc:secret'],
+        ['bob', 'read', 'doc:secret'],
+      ]);
+      const [flip] = report.flipped;
+      expect(flip.before.decision).toBe(true);
+      expect(flip.before.trace.matchedStatement?.sid).toBe('ReadDocs');
+      expect(flip.after.decision).toBe(false);
+      expect(flip.after.trace.matchedStatement?.sid).toBe('NoSecrets');
+      expect(flip.after.trace.matchedVia).toEqual([
+        { type: 'role', id: 'editor' },
+        { type: 'role', id: 'reader' },
+      ]);
+    });
+
+    it('should report decisions flipped by a role edit or deletion', async () => {
+      const { iam } = makeIAM();
+      const granted = await iam.simulate(
+        { roles: [{ id: 'reader', name: 'reader', policyIds: ['docs', 'editing'] }] },
+        requests
+      );
+      expect(granted.flipped.map((f) => f.request.user.id + ':' + f.request.action)).toEqual(['bob:edit']);
+      expect(granted.flipped[0].after.trace.matchedVia).toEqual([{ type: 'role', id: 'reader' }]);
+
+      const revoked = await iam.simulate({ deletedPolicyIds: ['docs'] }, requests);
+      expect(revoked.flipped).toHaveLength(3);
+      expect(revoked.flipped.every((f) => f.request.action === 'read' && !f.after.decision)).toBe(true);
+    });
+
+    it('should leave storage untouched', async () => {
+      const { iam, storage } = makeIAM();
+      const onChange = jest.fn();
+      storage.subscribe(onChange);
+      await iam.simulate({ deletedRoleIds: ['reader'] }, requests);
+      expect(onChange).not.toHaveBeenCalled();
+      expect(await storage.getRole('reader')).toEqual(roles[0]);
+      expect((await iam.can({ user: bob, action: 'read', resource: 'doc:1' })).decision).toBe(true);
+    });
+
+    it('should accept requests as an async iterable', async () => {
+      const { iam } = makeIAM();
+      async function* recorded() {
+        yield* requests;
+      }
+      const report = await iam.simulate({ deletedRoleIds: ['editor'] }, recorded());
+      expect(report.evaluated).toBe(5);
+      expect(report.flipped.map((f) => f.request.action)).toEqual(['read', 'edit', 'read']);
+    });
+
+    it('should not fire decision hooks', async () => {
+      const onDecision = jest.fn();
+      const storage = new InMemoryAdapter({ users: [alice], roles, policies });
+      const iam = new IAM({ storage, config: { logger: new DefaultLogger('none') }, hooks: { onDecision } });
+      await iam.simulate({}, requests);
+      expect(onDecision).not.toHaveBeenCalled();
+    });
+
+    it('should require a storage adapter', async () => {
+      const iam = new IAM({ config: { logger: new DefaultLogger('none') } });
+      await expect(iam.simulate({}, requests)).rejects.toThrow('No storage adapter configured');
+    });
+  });
+
+  describe('OverlayStorage', () => {
+    it('should read overlaid entities before the base storage', async () => {
+      const { storage } = makeIAM();
+      const edited: Policy = { id: 'docs', name: 'edited', statements: [] };
+      const overlay = new OverlayStorage(storage, { policies: [edited], deletedRoleIds: ['editor'] });
+      expect(await overlay.getPolicy('docs')).toBe(edited);
+      expect(await overlay.getPolicies(['editing', 'docs', 'missing'])).toEqual([policies[1], edited]);
+      expect(await overlay.getRole('editor')).toBeUndefined();
+      expect(await overlay.getRoles(['editor', 'reader'])).toEqual([roles[0]]);
+      const all: Role[] = [];
+      for await (const role of overlay.getAllRoles()) all.push(role);
+      expect(all).toEqual([roles[0]]);
+    });
+
+    it('should keep writes in the overlay and notify subscribers', async () => {
+      const { storage } = makeIAM();
+      const overlay = new OverlayStorage(storage);
+      const onChange = jest.fn();
+      overlay.subscribe(onChange);
+      const group: Group = { id: 'ops', name: 'ops', userIds: ['bob'], roleIds: ['editor'], policyIds: [] };
+      await overlay.saveGroup(group);
+      await overlay.deleteGroup('team');
+      expect(await overlay.getGroupsForUser('bob')).toEqual([group]);
+      expect(await storage.getGroupsForUser('bob')).toEqual(groups);
+      expect(onChange).toHaveBeenCalledWith({ type: 'group', operation: 'save', id: 'ops', entity: group });
+      expect(onChange).toHaveBeenCalledWith({ type: 'group', operation: 'delete', id: 'team' });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for date and time condition operators
+ */
+import { createTimeOperators, parseISODate } from '../src/core/timeOperators';
+import { IAM } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+describe('parseISODate', () => {
+  it('should parse ISO-8601 dates and date-times', () => {
+    expect(parseISODate('2024-03-01')?.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+    expect(parseISODate('2024-03-01T10:30:00+02:00')?.toISOString()).toBe('2024-03-01T08:30:00.000Z');
+    expect(parseISODate('2024-03-01T10:30')?.toISOString()).toBe('2024-03-01T10:30:00.000Z');
+  });
+
+  it('should accept Date instances and epoch milliseconds', () => {
+    expect(parseISODate(new Date(0))?.getTime()).toBe(0);
+    expect(parseISODate(1000)?.getTime()).toBe(1000);
+  });
+
+  it('should reject non-ISO and invalid values', () => {
+    expect(parseISODate('March 1, 2024')).toBeUndefined();
+    expect(parseISODate('2024-13-45')).toBeUndefined();
+    expect(parseISODate(null)).toBeUndefined();
+  });
+});
+
+describe('createTimeOperators', () => {
+  // Wednesday, 2024-03-06 14:30 UTC
+  const ops = createTimeOperators(() => new Date('2024-03-06T14:30:00Z'));
+
+  it('should compare the current time with dateBefore and dateAfter', () => {
+    expect(ops.dateBefore('currentTime', '2024-03-07', {})).toBe(true);
+    expect(ops.dateBefore('currentTime', '2024-03-06', {})).toBe(false);
+    expect(ops.dateAfter('currentTime', '2024-03-06', {})).toBe(true);
+  });
+
+  it('should read other keys from the context', () => {
+    expect(ops.dateAfter('expiresAt', '2024-01-01', { expiresAt: '2024-02-01T00:00:00Z' })).toBe(true);
+    expect(ops.dateAfter('expiresAt', '2024-01-01', {})).toBe(false);
+  });
+
+  it('should check inclusive ranges with dateBetween', () => {
+    expect(ops.dateBetween('currentTime', ['2024-03-01', '2024-03-31'], {})).toBe(true);
+    expect(ops.dateBetween('currentTime', ['2024-03-06T14:30:00Z', '2024-03-06T14:30:00Z'], {})).toBe(true);
+    expect(ops.dateBetween('currentTime', ['2024-04-01', '2024-04-30'], {})).toBe(false);
+    expect(ops.dateBetween('currentTime', ['2024-03-01'], {})).toBe(false);
+  });
+
+  it('should match days of the week by name or number in a time zone', () => {
+    expect(ops.dayOfWeek('currentTime', { days: ['mon', 'Wednesday'] }, {})).toBe(true);
+    expect(ops.dayOfWeek('currentTime', { days: [3] }, {})).toBe(true);
+    // Already Thursday in Kiribati (UTC+14)
+    expect(ops.dayOfWeek('currentTime', { days: ['wed'], timeZone: 'Pacific/Kiritimati' }, {})).toBe(false);
+    expect(ops.dayOfWeek('currentTime', { days: ['thu'], timeZone: 'Pacific/Kiritimati' }, {})).toBe(true);
+  });
+
+  it('should match hour windows in a time zone', () => {
+    expect(ops.hourOfDay('currentTime', { from: 9, to: 17 }, {})).toBe(true);
+    expect(ops.hourOfDay('currentTime', { from: 9, to: 17, timeZone: 'America/New_York' }, {})).toBe(true);
+    expect(ops.hourOfDay('currentTime', { from: 9, to: 17, timeZone: 'Asia/Tokyo' }, {})).toBe(false);
+  });
+
+  it('should support hour windows that wrap around midnight', () => {
+    expect(ops.hourOfDay('currentTime', { from: 22, to: 6, timeZone: 'Asia/Tokyo' }, {})).toBe(true);
+    expect(ops.hourOfDay('currentTime', { from: 22, to: 6 }, {})).toBe(false);
+  });
+
+  it('should fail closed on invalid time zones and windows', () => {
+    expect(ops.hourOfDay('currentTime', { from: 0, to: 24, timeZone: 'Mars/Olympus' }, {})).toBe(false);
+    expect(ops.dayOfWeek('currentTime', 'wed', {})).toBe(false);
+    expect(ops.dateBefore('currentTime', 'tomorrow', {})).toBe(false);
+  });
+});
+
+describe('IAM with time conditions', () => {
+  const policy: Policy = {
+    id: 'contractors',
+    name: 'contractors',
+    statements: [
+      {
+        effect: 'Allow',
+        actions: ['read'],
+        resources: ['doc:*'],
+        conditions: [
+          { operator: 'dayOfWeek', key: 'currentTime', value: { days: ['mon', 'tue', 'wed', 'thu', 'fri'], timeZone: 'Europe/Berlin' } },
+          { operator: 'hourOfDay', key: 'currentTime', value: { from: 9, to: 17, timeZone: 'Europe/Berlin' } },
+        ],
+      },
+    ],
+  };
+  const user: User = { id: 'u1', roleIds: [], policyIds: ['contractors'] };
+  const storage = new InMemoryAdapter({ users: [user], policies: [policy] });
+
+  it('should use the injected clock', async () => {
+    let now = new Date('2024-03-06T10:00:00Z');
+    const iam = new IAM({ storage, config: { logger: new DefaultLogger('none') }, clock: () => now });
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(true);
+    now = new Date('2024-03-06T17:00:00Z');
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(false);
+    now = new Date('2024-03-09T10:00:00Z');
+    expect((await iam.can({ user, action: 'read', resource: 'doc:1' })).decision).toBe(false);
+  });
+
+  it('should list the time operators', () => {
+    const iam = new IAM({ storage, config: { logger: new DefaultLogger('none') } });
+    expect(iam.listConditionOperators()).toEqual(
+      expect.arrayContaining(['dateBefore', 'dateAfter', 'dateBetween', 'dayOfWeek', 'hourOfDay'])
+    );
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Unit tests for entity validation
+ */
+import {
+  validatePolicy,
+  validateRole,
+  validateUser,
+  validateGroup,
+  validateEntities,
+  enforceValidation,
+  validateBeforeSave,
+  ValidationError,
+  iamJSONSchema,
+} from '../src/utils/validation';
+import { ConditionOperatorRegistry } from '../src/core/evaluator';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { JSONFileAdapter } from '../src/adapters/jsonFileAdapter';
+import { YAMLFileAdapter } from '../src/adapters/yamlFileAdapter';
+import { deserializePolicy } from '../src/utils/serialization';
+import type { ILogger } from '../src/core/logger';
+import type { Policy } from '../src/types/entities';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+const silentLogger = (): ILogger & { warn: jest.Mock } => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+});
+
+describe('Validation', () => {
+  const policy: Policy = {
+    id: 'p1',
+    name: 'policy',
+    statements: [
+      {
+        effect: 'Allow',
+        actions: ['read'],
+        resources: ['*'],
+        conditions: [{ anyOf: [{ operator: 'ipInRange', key: 'sourceIp', value: '10.0.0.0/8' }] }],
+      },
+    ],
+  };
+
+  describe('validatePolicy', () => {
+    it('should accept a valid policy with built-in operators', () => {
+      expect(validatePolicy(policy)).toEqual({ valid: true, issues: [] });
+    });
+
+    it('should detect a misspelled effect', () => {
+      const result = validatePolicy({ ...policy, statements: [{ effect: 'allow', actions: ['read'], resources: ['*'] }] });
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        {
+          path: 'statements[0].effect',
+          code: 'invalid-effect',
+          message: '"effect" must be "Allow" or "Deny", got "allow"; did you mean "Allow"?',
+        },
+      ]);
+    });
+
+    it('should flag unknown operators unless registered', () => {
+      const statements = [
+        {
+          effect: 'Deny',
+          actions: ['*'],
+          resources: ['*'],
+          conditions: [{ not: { operator: 'startsWith', key: 'path', value: '/admin' } }],
+        },
+      ];
+      expect(validatePolicy({ ...policy, statements }).issues).toEqual([
+        {
+          path: 'statements[0].conditions[0].not.operator',
+          code: 'unknown-operator',
+          message: 'Unknown condition operator "startsWith"',
+        },
+      ]);
+      const registry = new ConditionOperatorRegistry();
+      registry.register('startsWith', () => true);
+      expect(validatePolicy({ ...policy, statements }, { operators: registry }).valid).toBe(true);
+      expect(validatePolicy({ ...policy, statements }, { operators: ['startsWith'] }).valid).toBe(true);
+    });
+
+    it('should flag empty action lists', () => {
+      const result = validatePolicy({
+        ...policy,
+        statements: [
+          { effect: 'Allow', actions: [], resources: ['*'] },
+          { effect: 'Allow', resources: ['*'] },
+          { effect: 'Deny', notActions: [], resources: ['*'] },
+        ],
+      });
+      expect(result.issues.map((i) => [i.path, i.code])).toEqual([
+        ['statements[0].actions', 'empty-actions'],
+        ['statements[1]', 'empty-actions'],
+        ['statements[2].notActions', 'empty-actions'],
+      ]);
+    });
+
+    it('should report shape errors with paths', () => {
+      const result = validatePolicy({
+        id: '',
+        statements: [{ effect: 'Allow', actions: 'read', conditions: [{ operator: 'eq', key: 1 }] }, 'oops'],
+      });
+      expect(result.issues.map((i) => [i.path, i.code])).toEqual([
+        ['id', 'invalid-type'],
+        ['name', 'invalid-type'],
+        ['statements[0].actions', 'invalid-type'],
+        ['statements[0].conditions[0].key', 'invalid-type'],
+        ['statements[0].conditions[0].value', 'invalid-type'],
+        ['statements[1]', 'invalid-type'],
+      ]);
+      expect(validatePolicy(null).issues).toEqual([{ path: '', code: 'invalid-type', message: 'Policy must be an object' }]);
+    });
+  });
+
+  describe('references', () => {
+    const references = { policyIds: ['p1'], roleIds: ['r1'] };
+
+    it('should flag dangling policyIds and roleIds when references are given', () => {
+      const user = { id: 'u1', roleIds: ['r1', 'r2'], policyIds: ['p2'] };
+      expect(validateUser(user).valid).toBe(true);
+      expect(validateUser(user, { references }).issues).toEqual([
+        { path: 'roleIds[1]', code: 'dangling-reference', message: 'Unknown role "r2"' },
+        { path: 'policyIds[0]', code: 'dangling-reference', message: 'Unknown policy "p2"' },
+      ]);
+      expect(
+        validateRole({ id: 'r2', name: 'r2', policyIds: ['p1'], parentRoleIds: ['r3'] }, { references }).issues
+      ).toEqual([{ path: 'parentRoleIds[0]', code: 'dangling-reference', message: 'Unknown role "r3"' }]);
+      expect(
+        validateGroup({ id: 'g1', name: 'g', userIds: ['u1'], roleIds: ['r9'], policyIds: [] }, { references }).issues
+      ).toEqual([{ path: 'roleIds[0]', code: 'dangling-reference', message: 'Unknown role "r9"' }]);
+    });
+
+    it('should check a data set against its own entities', () => {
+      const result = validateEntities({
+        users: [{ id: 'u1', roleIds: ['r1', 'ghost'], policyIds: [] }],
+        roles: [{ id: 'r1', name: 'r1', policyIds: ['p1'] }],
+        policies: [policy, { ...policy }],
+      });
+      expect(result.issues).toEqual([
+        { path: 'users[0].roleIds[1]', code: 'dangling-reference', message: 'Unknown role "ghost"' },
+        { path: 'policies[1].id', code: 'duplicate-id', message: 'Duplicate id "p1"' },
+      ]);
+    });
+  });
+
+  describe('enforceValidation', () => {
+    const invalid = validatePolicy({ ...policy, statements: [{ effect: 'deny', actions: [] }] });
+
+    it('should throw a ValidationError with all issues in strict mode', () => {
+      expect.assertions(3);
+      expect(() => enforceValidation(invalid, 'strict', silentLogger(), 'policy "p1"')).toThrow(
+        'Invalid policy "p1": "effect" must be "Allow" or "Deny", got "deny"; did you mean "Deny"? at statements[0].effect (and 1 more)'
+      );
+      try {
+        enforceValidation(invalid, 'strict', silentLogger(), 'policy "p1"');
+      } catch (err) {
+        expect(err).toBeInstanceOf(ValidationError);
+        expect((err as ValidationError).issues).toBe(invalid.issues);
+      }
+    });
+
+    it('should log every issue in warn mode', () => {
+      const logger = silentLogger();
+      enforceValidation(invalid, 'warn', logger, 'policy "p1"');
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Invalid policy "p1"'), {
+        path: 'statements[0].actions',
+        code: 'empty-actions',
+      });
+    });
+  });
+
+  describe('adapters', () => {
+    const badPolicy = { id: 'bad', name: 'bad', statements: [{ effect: 'allow', actions: ['read'], resources: ['*'] }] };
+
+    it('should validate initial entities and saves of the in-memory adapter', async () => {
+      expect(() => new InMemoryAdapter({ policies: [badPolicy as Policy], validation: 'strict' })).toThrow(ValidationError);
+      const adapter = new InMemoryAdapter({ policies: [policy], validation: 'strict' });
+      await expect(adapter.saveUser({ id: 'u1', roleIds: ['missing'], policyIds: ['p1'] })).rejects.toThrow(
+        'Invalid user "u1": Unknown role "missing" at roleIds[0]'
+      );
+      expect(await adapter.getUser('u1')).toBeUndefined();
+      await adapter.saveUser({ id: 'u1', roleIds: [], policyIds: ['p1'] });
+      expect(await adapter.getUser('u1')).toBeDefined();
+    });
+
+    it('should warn and keep going in warn mode', async () => {
+      const logger = silentLogger();
+      const adapter = new InMemoryAdapter({ logger, validation: 'warn' });
+      await adapter.savePolicy(badPolicy as Policy);
+      expect(await adapter.getPolicy('bad')).toEqual(badPolicy);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Invalid policy "bad"'), {
+        path: 'statements[0].effect',
+        code: 'invalid-effect',
+      });
+    });
+
+    it('should not write warnings to the console unless the caller gives a logger', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        await new InMemoryAdapter().saveUser({ id: 'u1', roleIds: ['later'], policyIds: [] });
+        deserializePolicy(JSON.stringify(badPolicy));
+        expect(warn).not.toHaveBeenCalled();
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should check references against the given ids before saving', () => {
+      const logger = silentLogger();
+      const user = { id: 'u1', roleIds: ['r1', 'r2'], policyIds: [] };
+      validateBeforeSave(validateUser, user, 'user', { roleIds: ['r1'] }, { mode: 'warn', logger });
+      expect(logger.warn).toHaveBeenCalledWith('Invalid user "u1": Unknown role "r2"', {
+        path: 'roleIds[1]',
+        code: 'dangling-reference',
+      });
+      expect(() => validateBeforeSave(validateUser, user, 'user', { roleIds: ['r1'] }, { mode: 'strict' })).toThrow(
+        ValidationError
+      );
+      expect(() => validateBeforeSave(validateUser, user, 'user', {}, { mode: 'off' })).not.toThrow();
+    });
+
+    // JSON is valid YAML, so both adapters read the same file contents
+    const write = (data: unknown) => JSON.stringify(data);
+
+    describe.each([
+      ['JSON', JSONFileAdapter, 'iam-validation-test.json'],
+      ['YAML', YAMLFileAdapter, 'iam-validation-test.yaml'],
+    ] as const)('%s file adapter', (_name, Adapter, file) => {
+      const filePath = join(__dirname, file);
+      afterEach(async () => {
+        await fs.unlink(filePath).catch(() => {});
+      });
+
+      it('should reject an invalid file in strict mode', async () => {
+        await fs.writeFile(filePath, write({ users: [{ id: 'u1', roleIds: ['r1'], policyIds: [] }], roles: [], policies: [] }));
+        const adapter = new Adapter({ filePath, validation: 'strict' });
+        await expect(adapter.getUser('u1')).rejects.toThrow(`Invalid data in ${filePath}: Unknown role "r1" at users[0].roleIds[0]`);
+      });
+
+      it('should warn about an invalid file in warn mode', async () => {
+        await fs.writeFile(filePath, write({ users: [], roles: [], policies: [badPolicy] }));
+        const logger = silentLogger();
+        const adapter = new Adapter({ filePath, logger });
+        expect(await adapter.getPolicy('bad')).toEqual(badPolicy);
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+      });
+
+      it('should validate saved entities without writing invalid ones in strict mode', async () => {
+        await fs.writeFile(filePath, write({ users: [], roles: [], policies: [] }));
+        const adapter = new Adapter({ filePath, validation: 'strict', operators: ['startsWith'] });
+        await expect(adapter.savePolicy(badPolicy as Policy)).rejects.toThrow(ValidationError);
+        const custom: Policy = {
+          ...policy,
+          statements: [{ effect: 'Allow', actions: ['read'], conditions: [{ operator: 'startsWith', key: 'path', value: '/' }] }],
+        };
+        await adapter.savePolicy(custom);
+        expect(await adapter.getPolicy('bad')).toBeUndefined();
+        expect(await adapter.getPolicy('p1')).toEqual(custom);
+      });
+    });
+  });
+
+  describe('deserializers', () => {
+    it('should validate in strict mode and pass valid input through', () => {
+      const json = JSON.stringify({ id: 'p', name: 'p', statements: [{ effect: 'Alow', actions: ['read'] }] });
+      expect(() => deserializePolicy(json, { validation: 'strict' })).toThrow(ValidationError);
+      expect(deserializePolicy(JSON.stringify(policy), { validation: 'strict' })).toEqual(policy);
+    });
+  });
+
+  it('should publish a JSON Schema of the file format', () => {
+    expect(iamJSONSchema.$defs.statement.properties.effect.enum).toEqual(['Allow', 'Deny']);
+    expect(Object.keys(iamJSONSchema.properties)).toEqual(['users', 'roles', 'policies', 'groups']);
+  });
+});
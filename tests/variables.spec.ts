@@ -0,0 +1,214 @@
+/**
+ * Unit tests for policy variable substitution
+ */
+import {
+  getPath,
+  resolveVariable,
+  substituteVariables,
+  matchPatternWithVariables,
+} from '../src/core/variables';
+import { defaultPolicyEvaluator } from '../src/core/defaultEvaluator';
+import { defaultConditionOperators } from '../src/core/evaluator';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Policy } from '../src/types/entities';
+
+const user: User = {
+  id: 'u1',
+  roleIds: [],
+  policyIds: [],
+  attributes: { department: 'eng', level: 3, tags: ['a'] },
+};
+const scope = { user, context: { tenantId: 't1', nested: { region: 'eu' } } };
+
+describe('getPath / resolveVariable', () => {
+  it('should read dotted paths from user and context', () => {
+    expect(resolveVariable('user.id', scope)).toBe('u1');
+    expect(resolveVariable('user.attributes.department', scope)).toBe('eng');
+    expect(resolveVariable('context.tenantId', scope)).toBe('t1');
+    expect(resolveVariable('context.nested.region', scope)).toBe('eu');
+  });
+
+  it('should return undefined for missing paths and unknown namespaces', () => {
+    expect(resolveVariable('user.attributes.missing', scope)).toBeUndefined();
+    expect(resolveVariable('context.tenantId.deeper', scope)).toBeUndefined();
+    expect(resolveVariable('env.HOME', scope)).toBeUndefined();
+  });
+
+  it('should never follow prototype members', () => {
+    expect(getPath({}, 'constructor')).toBeUndefined();
+    expect(resolveVariable('user.toString', scope)).toBeUndefined();
+    expect(resolveVariable('constructor', scope)).toBeUndefined();
+  });
+
+  it('should support escapes for special characters', () => {
+    expect(resolveVariable('*', scope)).toBe('*');
+    expect(resolveVariable('$', scope)).toBe('$');
+  });
+});
+
+describe('substituteVariables', () => {
+  it('should keep the type of a value that is exactly one variable', () => {
+    expect(substituteVariables('${user.attributes.level}', scope)).toEqual({ resolved: true, value: 3 });
+    expect(substituteVariables('${user.attributes.tags}', scope)).toEqual({ resolved: true, value: ['a'] });
+  });
+
+  it('should interpolate variables embedded in strings', () => {
+    expect(substituteVariables('team-${user.attributes.department}-${context.tenantId}', scope)).toEqual({
+      resolved: true,
+      value: 'team-eng-t1',
+    });
+  });
+
+  it('should substitute arrays element by element', () => {
+    expect(substituteVariables(['${user.id}', 'admin'], scope)).toEqual({ resolved: true, value: ['u1', 'admin'] });
+  });
+
+  it('should report missing variables', () => {
+    expect(substituteVariables('${context.missing}', scope)).toEqual({ resolved: false, variable: 'context.missing' });
+    expect(substituteVariables(['x', 'a-${user.nope}'], scope)).toEqual({ resolved: false, variable: 'user.nope' });
+    expect(substituteVariables('a-${user.attributes.tags}', scope)).toEqual({
+      resolved: false,
+      variable: 'user.attributes.tags',
+    });
+  });
+
+  it('should leave values without variables untouched', () => {
+    expect(substituteVariables(42, scope)).toEqual({ resolved: true, value: 42 });
+    expect(substituteVariables('plain', scope)).toEqual({ resolved: true, value: 'plain' });
+  });
+});
+
+describe('matchPatternWithVariables', () => {
+  it('should resolve variables in patterns', () => {
+    expect(matchPatternWithVariables('doc:${user.id}', 'doc:u1', scope)).toBe(true);
+    expect(matchPatternWithVariables('doc:${user.id}', 'doc:u2', scope)).toBe(false);
+    expect(matchPatternWithVariables('tenant/${context.tenantId}/*', 'tenant/t1/doc/9', scope)).toBe(true);
+  });
+
+  it('should match substituted values literally', () => {
+    const wild = { user: { ...user, id: '*' }, context: {} };
+    expect(matchPatternWithVariables('doc:${user.id}', 'doc:u1', wild)).toBe(false);
+    expect(matchPatternWithVariables('doc:${user.id}', 'doc:*', wild)).toBe(true);
+  });
+
+  it('should never match when a variable is missing', () => {
+    expect(matchPatternWithVariables('doc:${context.missing}', 'doc:', scope)).toBe(false);
+    expect(matchPatternWithVariables('doc:${context.missing}*', 'doc:x', scope)).toBe(false);
+  });
+
+  it('should treat escaped wildcards literally', () => {
+    expect(matchPatternWithVariables('doc:${*}', 'doc:*', scope)).toBe(true);
+    expect(matchPatternWithVariables('doc:${*}', 'doc:1', scope)).toBe(false);
+  });
+});
+
+describe('defaultPolicyEvaluator with policy variables', () => {
+  const evaluator = defaultPolicyEvaluator(new DefaultLogger('none'));
+  const ownDocs: Policy = {
+    id: 'pOwn',
+    name: 'OwnDocs',
+    statements: [
+      {
+        effect: 'Allow',
+        actions: ['edit'],
+        resources: ['doc:${user.id}'],
+        conditions: [{ operator: 'eq', key: 'tenant', value: '${context.tenantId}' }],
+      },
+    ],
+  };
+
+  it('should allow a user on their own resource', async () => {
+    const result = await evaluator(user, 'edit', 'doc:u1', { tenant: 't1', tenantId: 't1' }, [ownDocs], [], defaultConditionOperators);
+    expect(result.decision).toBe(true);
+  });
+
+  it('should deny other users resources', async () => {
+    const result = await evaluator(user, 'edit', 'doc:u2', { tenant: 't1', tenantId: 't1' }, [ownDocs], [], defaultConditionOperators);
+    expect(result.decision).toBe(false);
+  });
+
+  it('should fail conditions whose variables are missing', async () => {
+    const result = await evaluator(user, 'edit', 'doc:u1', { tenant: undefined }, [ownDocs], [], defaultConditionOperators);
+    expect(result.decision).toBe(false);
+  });
+  it('should not let not() turn a missing variable or unknown operator into a match', async () => {
+    const policy: Policy = {
+      id: 'pNot',
+      name: 'AllButBlocked',
+      statements: [
+        {
+          effect: 'Allow',
+          actions: ['edit'],
+          resources: ['doc:*'],
+          conditions: [{ not: { operator: 'eq', key: 'user.id', value: '${context.blockedUserId}' } }],
+        },
+      ],
+    };
+    const missing = await evaluator(user, 'edit', 'doc:1', {}, [policy], [], defaultConditionOperators);
+    expect(missing.decision).toBe(false);
+    expect(missing.trace.conditionErrors).toEqual([
+      {
+        policyId: 'pNot',
+        sid: undefined,
+        conditionPath: 'conditions[0].not',
+        operator: 'eq',
+        message: 'Unresolved policy variable ${context.blockedUserId}',
+      },
+    ]);
+    const other = await evaluator(user, 'edit', 'doc:1', { blockedUserId: 'u9' }, [policy], [], defaultConditionOperators);
+    expect(other.decision).toBe(true);
+
+    const typo: Policy = {
+      ...policy,
+      statements: [{ ...policy.statements[0], conditions: [{ not: { operator: 'equals', key: 'user.id', value: 'u9' } }] }],
+    };
+    const unknown = await evaluator(user, 'edit', 'doc:1', {}, [typo], [], defaultConditionOperators);
+    expect(unknown.decision).toBe(false);
+    expect(unknown.trace.conditionErrors?.[0].message).toBe('Unknown condition operator "equals"');
+  });
+
+  it('should apply a Deny whose condition has a missing variable', async () => {
+    const policy: Policy = {
+      id: 'pDenyCond',
+      name: 'DenyBlocked',
+      statements: [
+        { effect: 'Allow', actions: ['edit'], resources: ['doc:*'] },
+        {
+          effect: 'Deny',
+          actions: ['edit'],
+          resources: ['doc:*'],
+          conditions: [{ operator: 'eq', key: 'user.id', value: '${context.blockedUserId}' }],
+        },
+      ],
+    };
+    const result = await evaluator(user, 'edit', 'doc:1', {}, [policy], [], defaultConditionOperators);
+    expect(result.decision).toBe(false);
+  });
+
+  it('should not apply an Allow whose notResources has a missing variable', async () => {
+    const policy: Policy = {
+      id: 'pAll',
+      name: 'AllButTenantSecrets',
+      statements: [{ effect: 'Allow', actions: ['read'], notResources: ['secret:${context.tenantId}:*'] }],
+    };
+    const missing = await evaluator(user, 'read', 'secret:acme:x', {}, [policy], [], defaultConditionOperators);
+    expect(missing.decision).toBe(false);
+    const other = await evaluator(user, 'read', 'secret:acme:x', { tenantId: 'globex' }, [policy], [], defaultConditionOperators);
+    expect(other.decision).toBe(true);
+  });
+
+  it('should apply a Deny whose resources have a missing variable', async () => {
+    const policy: Policy = {
+      id: 'pDeny',
+      name: 'ReadAllButTenant',
+      statements: [
+        { effect: 'Allow', actions: ['read'], resources: ['doc:*'] },
+        { effect: 'Deny', actions: ['read'], resources: ['doc:${context.tenantId}:*'] },
+      ],
+    };
+    const missing = await evaluator(user, 'read', 'doc:acme:1', {}, [policy], [], defaultConditionOperators);
+    expect(missing.decision).toBe(false);
+    const other = await evaluator(user, 'read', 'doc:acme:1', { tenantId: 'globex' }, [policy], [], defaultConditionOperators);
+    expect(other.decision).toBe(true);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for IAM.whoCanAccess
+ */
+import { IAM, type AccessGrantee } from '../src/core/iam';
+import { InMemoryAdapter } from '../src/adapters/inMemoryAdapter';
+import { DefaultLogger } from '../src/core/logger';
+import type { User, Role, Policy, Group } from '../src/types/entities';
+
+async function collect(grantees: AsyncIterable<AccessGrantee>): Promise<AccessGrantee[]> {
+  const out: AccessGrantee[] = [];
+  for await (const grantee of grantees) out.push(grantee);
+  return out;
+}
+
+describe('IAM.whoCanAccess', () => {
+  const policies: Policy[] = [
+    {
+      id: 'billing-admin',
+      name: 'billing-admin',
+      statements: [{ sid: 'ManageBilling', effect: 'Allow', actions: ['billing:*'], resources: ['billing:*'] }],
+    },
+    {
+      id: 'finance-delete',
+      name: 'finance-delete',
+      statements: [
+        {
+          sid: 'DeleteIfFinance',
+          effect: 'Allow',
+          actions: ['delete'],
+          resources: ['billing:*'],
+          conditions: [{ operator: 'eq', key: 'user.attributes.department', value: 'finance' }],
+        },
+      ],
+    },
+    {
+      id: 'everything',
+      name: 'everything',
+      statements: [{ sid: 'All', effect: 'Allow', actions: ['*'], resources: ['*'] }],
+    },
+    {
+      id: 'no-delete',
+      name: 'no-delete',
+      statements: [{ sid: 'NoDelete', effect: 'Deny', actions: ['delete'], resources: ['*'] }],
+    },
+  ];
+  const roles: Role[] = [
+    { id: 'admin', name: 'admin', policyIds: ['everything'] },
+    { id: 'finance', name: 'finance', policyIds: ['finance-delete'] },
+    { id: 'senior-finance', name: 'senior-finance', policyIds: [], parentRoleIds: ['admin'] },
+    { id: 'viewer', name: 'viewer', policyIds: [] },
+  ];
+  const groups: Group[] = [{ id: 'accounting', name: 'accounting', userIds: ['carol'], roleIds: ['finance'], policyIds: [] }];
+  const users: User[] = [
+    { id: 'alice', roleIds: ['admin'], policyIds: [] },
+    { id: 'bob', roleIds: ['admin'], policyIds: ['no-delete'] },
+    { id: 'carol', roleIds: [], policyIds: [], attributes: { department: 'finance' } },
+    { id: 'dave', roleIds: ['finance'], policyIds: [], attributes: { department: 'sales' } },
+    { id: 'erin', roleIds: ['senior-finance'], policyIds: [] },
+    { id: 'frank', roleIds: ['viewer'], policyIds: [] },
+  ];
+  const iam = new IAM({
+    storage: new InMemoryAdapter({ users, roles, policies, groups }),
+    config: { logger: new DefaultLogger('none') },
+  });
+
+  it('should stream allowed roles, then allowed users', async () => {
+    const grantees = await collect(iam.whoCanAccess('delete', 'billing:invoices'));
+    expect(grantees.map((g) => `${g.type}:${g.id}`)).toEqual([
+      'role:admin',
+      'role:senior-finance',
+      'user:alice',
+      'user:carol',
+      'user:erin',
+    ]);
+  });
+
+  it('should report the path from user to statement', async () => {
+    const grantees = await collect(iam.whoCanAccess('delete', 'billing:invoices'));
+    const carol = grantees.find((g) => g.id === 'carol')!;
+    expect(carol.grants).toEqual([
+      {
+        policyId: 'finance-delete',
+        statement: policies[1].statements[0],
+        via: [
+          { type: 'group', id: 'accounting' },
+          { type: 'role', id: 'finance' },
+        ],
+        conditionPaths: ['conditions[0]'],
+      },
+    ]);
+    const erin = grantees.find((g) => g.id === 'erin')!;
+    expect(erin.grants.map((g) => [g.policyId, g.statement.sid, g.via])).toEqual([
+      ['everything', 'All', [{ type: 'role', id: 'senior-finance' }, { type: 'role', id: 'admin' }]],
+    ]);
+  });
+
+  it('should list every Allow statement granting access', async () => {
+    const grantees = await collect(iam.whoCanAccess('billing:refund', 'billing:invoices'));
+    const alice = grantees.find((g) => g.id === 'alice')!;
+    expect(alice.grants.map((g) => g.statement.sid)).toEqual(['All']);
+    expect(grantees.map((g) => g.id)).toEqual(['admin', 'senior-finance', 'alice', 'bob', 'erin']);
+  });
+
+  it('should evaluate conditions with the given context and resource attributes', async () => {
+    const storage = new InMemoryAdapter({
+      users: [{ id: 'u1', roleIds: [], policyIds: ['own'] }],
+      roles: [],
+      policies: [
+        {
+          id: 'own',
+          name: 'own',
+          statements: [
+            {
+              effect: 'Allow',
+              actions: ['read'],
+              resources: ['doc:*'],
+              conditions: [
+                { operator: 'eq', key: 'resource.ownerId', value: '${user.id}' },
+                { operator: 'eq', key: 'mfa', value: true },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    const engine = new IAM({ storage, config: { logger: new DefaultLogger('none') } });
+    const ids = async (options: Parameters<IAM['whoCanAccess']>[2]) =>
+      (await collect(engine.whoCanAccess('read', 'doc:1', options))).map((g) => g.id);
+    expect(await ids({ resourceAttributes: { ownerId: 'u1' }, context: { mfa: true } })).toEqual(['u1']);
+    expect(await ids({ resourceAttributes: { ownerId: 'u1' }, context: { mfa: false } })).toEqual([]);
+    expect(await ids({ resourceAttributes: { ownerId: 'u2' }, context: { mfa: true } })).toEqual([]);
+  });
+
+  it('should fall back to the resource resolver like can', async () => {
+    const owner: User = { id: 'u1', roleIds: [], policyIds: ['own'] };
+    const storage = new InMemoryAdapter({
+      users: [owner, { id: 'u2', roleIds: [], policyIds: ['own'] }],
+      roles: [],
+      policies: [
+        {
+          id: 'own',
+          name: 'own',
+          statements: [
+            {
+              effect: 'Allow',
+              actions: ['read'],
+              resources: ['doc:*'],
+              conditions: [{ operator: 'eq', key: 'resource.ownerId', value: '${user.id}' }],
+            },
+          ],
+        },
+      ],
+    });
+    const resourceResolver = jest.fn((resource: string) => (resource === 'doc:1' ? { ownerId: 'u1' } : undefined));
+    const engine = new IAM({ storage, config: { logger: new DefaultLogger('none') }, resourceResolver });
+    expect((await engine.can({ user: owner, action: 'read', resource: 'doc:1' })).decision).toBe(true);
+    expect((await collect(engine.whoCanAccess('read', 'doc:1'))).map((g) => g.id)).toEqual(['u1']);
+    resourceResolver.mockClear();
+    const given = await collect(engine.whoCanAccess('read', 'doc:1', { resourceAttributes: { ownerId: 'u2' } }));
+    expect(given.map((g) => g.id)).toEqual(['u2']);
+    expect(resourceResolver).not.toHaveBeenCalled();
+  });
+
+  it('should read users through getAllUsers without per-user storage lookups', async () => {
+    const storage = new InMemoryAdapter({ users, roles, policies, groups });
+    const onStorageAccess = jest.fn();
+    const engine = new IAM({ storage, config: { logger: new DefaultLogger('none') }, hooks: { onStorageAccess } });
+    const getAllUsers = jest.spyOn(storage, 'getAllUsers');
+    await collect(engine.whoCanAccess('delete', 'billing:invoices'));
+    expect(getAllUsers).toHaveBeenCalledTimes(1);
+    expect(onStorageAccess).not.toHaveBeenCalled();
+  });
+
+  it('should require a storage adapter', async () => {
+    const engine = new IAM({ config: { logger: new DefaultLogger('none') } });
+    await expect(collect(engine.whoCanAccess('read', 'doc:1'))).rejects.toThrow('No storage adapter configured');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for wildcard matching utilities
+ */
+import {
+  matchWildcard,
+  matchesAny,
+  isWildcardPattern,
+  patternCovers,
+  patternsOverlap,
+} from '../src/utils/wildcard';
+
+describe('matchWildcard', () => {
+  it('should compare literal patterns exactly', () => {
+    expect(matchWildcard('doc:1', 'doc:1')).toBe(true);
+    expect(matchWildcard('doc:1', 'doc:10')).toBe(false);
+    expect(matchWildcard('read', 'Read')).toBe(false);
+  });
+
+  it('should match * against any sequence of characters', () => {
+    expect(matchWildcard('*', 'anything:at/all')).toBe(true);
+    expect(matchWildcard('doc:*', 'doc:42')).toBe(true);
+    expect(matchWildcard('doc:*', 'doc:')).toBe(true);
+    expect(matchWildcard('doc:*', 'file:42')).toBe(false);
+    expect(matchWildcard('s3:Get*', 's3:GetObject')).toBe(true);
+    expect(matchWildcard('s3:Get*', 's3:PutObject')).toBe(false);
+    expect(matchWildcard('arn:*:bucket/*', 'arn:eu:bucket/a/b')).toBe(true);
+  });
+
+  it('should match ? against exactly one character', () => {
+    expect(matchWildcard('doc:?', 'doc:1')).toBe(true);
+    expect(matchWildcard('doc:?', 'doc:10')).toBe(false);
+    expect(matchWildcard('doc:?', 'doc:')).toBe(false);
+  });
+
+  it('should treat regex metacharacters literally', () => {
+    expect(matchWildcard('doc.(1)+', 'doc.(1)+')).toBe(true);
+    expect(matchWildcard('doc.*', 'docx1')).toBe(false);
+    expect(matchWildcard('doc.*', 'doc.x1')).toBe(true);
+    expect(matchWildcard('[a]*', '[a]b')).toBe(true);
+  });
+});
+
+describe('matchesAny', () => {
+  it('should return true if any pattern matches', () => {
+    expect(matchesAny(['write', 'read*'], 'readAll')).toBe(true);
+    expect(matchesAny(['write', 'read*'], 'delete')).toBe(false);
+    expect(matchesAny([], 'read')).toBe(false);
+  });
+
+  it('should fall back to strict equality for non-string values', () => {
+    expect(matchesAny([1, 2], 2)).toBe(true);
+    expect(matchesAny(['*'], 2)).toBe(false);
+  });
+});
+
+describe('isWildcardPattern', () => {
+  it('should detect glob characters', () => {
+    expect(isWildcardPattern('doc:*')).toBe(true);
+    expect(isWildcardPattern('doc:?')).toBe(true);
+    expect(isWildcardPattern('doc:1')).toBe(false);
+  });
+});
+
+describe('patternCovers', () => {
+  it('should detect patterns covered by broader ones', () => {
+    expect(patternCovers('*', 'doc:*')).toBe(true);
+    expect(patternCovers('doc:*', 'doc:1?')).toBe(true);
+    expect(patternCovers('doc:*', 'doc:*')).toBe(true);
+    expect(patternCovers('doc:1', 'doc:1')).toBe(true);
+  });
+
+  it('should not treat wildcards in the narrower pattern as literals', () => {
+    expect(patternCovers('doc:?', 'doc:*')).toBe(false);
+    expect(patternCovers('doc:1', 'doc:?')).toBe(false);
+    expect(patternCovers('doc:1*', 'doc:*')).toBe(false);
+  });
+});
+
+describe('patternsOverlap', () => {
+  it('should detect patterns with common values', () => {
+    expect(patternsOverlap('doc:*', '*:1')).toBe(true);
+    expect(patternsOverlap('doc:?', 'doc:1')).toBe(true);
+    expect(patternsOverlap('a*c', 'ab*')).toBe(true);
+  });
+
+  it('should detect disjoint patterns', () => {
+    expect(patternsOverlap('doc:*', 'img:*')).toBe(false);
+    expect(patternsOverlap('doc:?', 'doc:12')).toBe(false);
+  });
+});
@@ -2,7 +2,7 @@
  * Unit tests for YAMLFileAdapter
  */
 import { YAMLFileAdapter } from '../src/adapters/yamlFileAdapter';
-import type { User, Role, Policy } from '../src/types/entities';
+import type { User, Role, Policy, Group } from '../src/types/entities';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { dump } from 'js-yaml';
@@ -11,12 +11,13 @@ describe('YAMLFileAdapter', () => {
   const user: User = { id: 'u1', roleIds: ['r1'], policyIds: ['p1'] };
   const role: Role = { id: 'r1', name: 'role', policyIds: ['p1'] };
   const policy: Policy = { id: 'p1', name: 'policy', statements: [] };
+  const group: Group = { id: 'g1', name: 'group', userIds: ['u1'], roleIds: ['r1'], policyIds: ['p1'] };
   let adapter: YAMLFileAdapter;
   let tmpPath: string;
 
   beforeEach(async () => {
     tmpPath = join(__dirname, 'iam-yaml-test.yaml');
-    const content = dump({ users: [user], roles: [role], policies: [policy] });
+    const content = dump({ users: [user], roles: [role], policies: [policy], groups: [group] });
     await fs.writeFile(tmpPath, content, 'utf-8');
     adapter = new YAMLFileAdapter({ filePath: tmpPath });
   });
@@ -113,5 +114,44 @@ describe('YAMLFileAdapter', () => {
     await adapter.deletePolicy('p1');
     expect(await adapter.getPolicy('p1')).toBeUndefined();
   });
-});
 
+  it('should get groups by id, by ids, for a user, and as an async iterable', async () => {
+    expect(await adapter.getGroup('g1')).toEqual(group);
+    expect(await adapter.getGroup('nope')).toBeUndefined();
+    expect(await adapter.getGroups(['g1', 'nope'])).toEqual([group]);
+    expect(await adapter.getGroupsForUser('u1')).toEqual([group]);
+    expect(await adapter.getGroupsForUser('u2')).toEqual([]);
+    const groups: Group[] = [];
+    for await (const g of adapter.getAllGroups()) groups.push(g);
+    expect(groups).toEqual([group]);
+  });
+
+  it('should save, update and delete group', async () => {
+    const g2: Group = { id: 'g2', name: 'g2', userIds: [], roleIds: [], policyIds: [] };
+    await adapter.saveGroup(g2);
+    expect(await adapter.getGroup('g2')).toEqual(g2);
+    const updated = { ...g2, userIds: ['u2'] };
+    await adapter.saveGroup(updated);
+    expect(await adapter.getGroup('g2')).toEqual(updated);
+    expect(await adapter.getGroupsForUser('u2')).toEqual([updated]);
+    await adapter.deleteGroup('g2');
+    expect(await adapter.getGroup('g2')).toBeUndefined();
+  });
+
+  it('should load files without a groups section', async () => {
+    await fs.writeFile(tmpPath, dump({ users: [user], roles: [role], policies: [policy] }), 'utf-8');
+    const legacy = new YAMLFileAdapter({ filePath: tmpPath });
+    expect(await legacy.getGroupsForUser('u1')).toEqual([]);
+  });
+
+  it('should persist notActions and notResources', async () => {
+    const exceptRead: Policy = {
+      id: 'p3',
+      name: 'exceptRead',
+      statements: [{ effect: 'Deny', notActions: ['read'], notResources: ['public:*'] }],
+    };
+    await adapter.savePolicy(exceptRead);
+    const reloaded = new YAMLFileAdapter({ filePath: tmpPath });
+    expect(await reloaded.getPolicy('p3')).toEqual(exceptRead);
+  });
+});